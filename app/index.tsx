@@ -55,7 +55,12 @@ export default function App() {
   const currentAddress = useHook ? hookAddress : address;
   // Only show loading if it's a manual request
   const currentLoading = useHook ? isManualRequest && hookLoading : loading;
-  const currentError = useHook ? hookError : errorMsg;
+  // Geocoding failures still leave coordinates to show, so only surface fix errors
+  const currentError = useHook
+    ? hookError && hookError.code !== "GEOCODE_FAILED"
+      ? hookError.message
+      : null
+    : errorMsg;
 
 
   // Function to fetch location with standard method
@@ -119,7 +124,7 @@ export default function App() {
     startTimeRef.current = Date.now();
     hookMeasuringRef.current = true;
     // Force refresh without cache
-    await hookRefresh(true);
+    await hookRefresh({ force: true });
   };
 
   // Hook measurement - measures from fetch start until data is available
@@ -0,0 +1,167 @@
+import {
+  createContext,
+  useContext,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+import type { UseLocationOptions } from "../hooks/useCustomLocation";
+import {
+  defaultLocationStore,
+  LocationStore,
+} from "../lib/location/locationStore";
+import type { LocationSource } from "../lib/location/source";
+import {
+  noopStorageAdapter,
+  type LocationStorageAdapter,
+} from "../lib/location/storage";
+
+/**
+ * Store and default options visible to a subtree
+ */
+export type LocationContextValue = {
+  store: LocationStore;
+  /** Defaults merged under the options passed to each useLocation call */
+  options: UseLocationOptions;
+};
+
+/**
+ * Props for LocationProvider
+ * store, storage, storageNamespace, source and whether options are passed are read once on mount
+ */
+export type LocationProviderProps = {
+  children: ReactNode;
+  /**
+   * Store to expose as-is, ignoring storage and source
+   */
+  store?: LocationStore;
+  /**
+   * Storage for this subtree's persisted location and addresses
+   * @default the adapter registered with setLocationStorage when storageNamespace is set,
+   * otherwise nothing is persisted
+   */
+  storage?: LocationStorageAdapter;
+  /**
+   * Key prefix used with `storage` (or the registered adapter)
+   * @default "expo-location-hook"
+   */
+  storageNamespace?: string;
+  /**
+   * Where permissions and fixes come from for this subtree
+   * @default the source of the enclosing store
+   */
+  source?: LocationSource;
+  /**
+   * Default useLocation options, merged over those of an enclosing provider
+   */
+  options?: UseLocationOptions;
+};
+
+/**
+ * Whether two option objects have the same keys with identical values
+ */
+const shallowEqual = (
+  a: UseLocationOptions | undefined,
+  b: UseLocationOptions | undefined
+): boolean => {
+  if (a === b) return true;
+  if (!a || !b) return false;
+
+  const keys = Object.keys(a) as (keyof UseLocationOptions)[];
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => Object.is(a[key], b[key]))
+  );
+};
+
+/**
+ * Without a provider every hook shares the global store
+ */
+const LocationContext = createContext<LocationContextValue>({
+  store: defaultLocationStore,
+  options: {},
+});
+
+/**
+ * Scopes the location cache, storage, source and default options to a subtree
+ *
+ * A provider with only children reuses the enclosing store. Any other prop gives
+ * the subtree its own store, so nothing leaks between scopes:
+ * - storage and/or storageNamespace persist under that namespace
+ * - options or source alone keep the location in memory only
+ *
+ * @example
+ * ```tsx
+ * // Privacy-reduced tab next to a precise one
+ * <LocationProvider
+ *   storageNamespace="coarse"
+ *   storage={createMemoryStorageAdapter()}
+ *   options={{ initialAccuracy: Location.LocationAccuracy.Lowest, enableRefinement: false }}
+ * >
+ *   <CoarseTab />
+ * </LocationProvider>
+ * ```
+ */
+const LocationProvider = ({
+  children,
+  store,
+  storage,
+  storageNamespace,
+  source,
+  options,
+}: LocationProviderProps) => {
+  const parent = useContext(LocationContext);
+
+  // Created once so the cache survives re-renders
+  const [scopedStore] = useState(() => {
+    if (store) return store;
+    if (!storage && storageNamespace === undefined && !source && !options) {
+      return parent.store;
+    }
+    return new LocationStore({
+      source: source ?? parent.store.source,
+      // Without a namespace there is no key of its own to persist under
+      storage:
+        storage ??
+        (storageNamespace === undefined ? noopStorageAdapter : undefined),
+      storageNamespace,
+    });
+  });
+
+  // Same object while the values are equal, so inline options do not change the context
+  const optionsRef = useRef(options);
+  if (!shallowEqual(optionsRef.current, options)) {
+    optionsRef.current = options;
+  }
+  const stableOptions = optionsRef.current;
+
+  const value = useMemo<LocationContextValue>(
+    () => ({
+      store: scopedStore,
+      options: { ...parent.options, ...stableOptions },
+    }),
+    [scopedStore, parent.options, stableOptions]
+  );
+
+  return (
+    <LocationContext.Provider value={value}>
+      {children}
+    </LocationContext.Provider>
+  );
+};
+
+/**
+ * Returns the store and default options of the nearest LocationProvider
+ * Falls back to the global store when there is none
+ */
+const useLocationContext = (): LocationContextValue =>
+  useContext(LocationContext);
+
+/**
+ * Returns the store of the nearest LocationProvider (or the global one)
+ */
+const useLocationStore = (): LocationStore => useContext(LocationContext).store;
+
+export default LocationProvider;
+export { LocationProvider, useLocationContext, useLocationStore };
@@ -0,0 +1,230 @@
+import {
+  NavigationContext,
+  type NavigationProp,
+  type ParamListBase,
+} from "@react-navigation/native";
+import { act, renderHook } from "@testing-library/react-native";
+import type { ReactNode } from "react";
+import {
+  AppState,
+  type AppStateStatus,
+  type NativeEventSubscription,
+} from "react-native";
+import { LocationProvider } from "../../components/LocationProvider";
+import {
+  createAddress,
+  createFix,
+  createLocationTestHarness,
+  flushMicrotasks,
+  resetLocationModules,
+  type LocationTestHarness,
+} from "../../lib/location/testing";
+import { useLocation, type UseLocationOptions } from "../useCustomLocation";
+
+type AppStateListener = (state: AppStateStatus) => void;
+
+/**
+ * Navigation object that only supports screen events
+ */
+const createFakeNavigation = () => {
+  const listeners = new Map<string, Set<() => void>>();
+  return {
+    addListener: jest.fn((event: string, listener: () => void) => {
+      const eventListeners = listeners.get(event) ?? new Set();
+      eventListeners.add(listener);
+      listeners.set(event, eventListeners);
+      return () => {
+        eventListeners.delete(listener);
+      };
+    }),
+    emit: (event: string) => {
+      listeners.get(event)?.forEach((listener) => listener());
+    },
+  };
+};
+
+describe("useLocation", () => {
+  let harness: LocationTestHarness;
+  let appStateListeners: Set<AppStateListener>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    harness = createLocationTestHarness();
+    appStateListeners = new Set();
+    jest
+      .spyOn(AppState, "addEventListener")
+      .mockImplementation((_type, listener) => {
+        appStateListeners.add(listener as AppStateListener);
+        return {
+          remove: () => {
+            appStateListeners.delete(listener as AppStateListener);
+          },
+        } as NativeEventSubscription;
+      });
+  });
+
+  afterEach(() => {
+    act(() => {
+      harness.store.reset();
+    });
+    resetLocationModules();
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  const setAppState = (state: AppStateStatus) =>
+    act(() => {
+      appStateListeners.forEach((listener) => listener(state));
+    });
+
+  const render = (
+    options: UseLocationOptions,
+    navigation?: ReturnType<typeof createFakeNavigation>
+  ) =>
+    renderHook(() => useLocation(options), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <LocationProvider store={harness.store}>
+          <NavigationContext.Provider
+            value={
+              navigation as unknown as NavigationProp<ParamListBase> | undefined
+            }
+          >
+            {children}
+          </NavigationContext.Provider>
+        </LocationProvider>
+      ),
+    });
+
+  /**
+   * Mounts the hook and answers its first fetch
+   */
+  const renderWithLocation = async (
+    options: UseLocationOptions = {},
+    navigation?: ReturnType<typeof createFakeNavigation>
+  ) => {
+    const rendered = render(
+      { cacheTTL: 1000, enableRefinement: false, ...options },
+      navigation
+    );
+    await act(async () => {
+      await harness.resolveFix(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 5 })
+      );
+      await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+    });
+    expect(rendered.result.current.coords?.latitude).toBe(38.7);
+    return rendered;
+  };
+
+  describe("app state", () => {
+    it("aborts in-flight work in the background", async () => {
+      const abort = jest.spyOn(harness.store, "abort");
+      const { result } = render({ enableRefinement: false });
+      await act(() => flushMicrotasks());
+      expect(harness.store.getSnapshot().loading).toBe(true);
+
+      setAppState("background");
+      await act(() =>
+        harness.resolveFix(
+          createFix({ latitude: 38.7, longitude: -9.1, accuracy: 5 })
+        )
+      );
+
+      expect(abort).toHaveBeenCalledTimes(1);
+      expect(harness.store.getSnapshot().loading).toBe(false);
+      expect(result.current.coords).toBeNull();
+    });
+
+    it("fetches again on return when the cache expired", async () => {
+      const { source } = harness;
+      await renderWithLocation();
+      const ensureLocation = jest.spyOn(harness.store, "ensureLocation");
+
+      setAppState("background");
+      jest.advanceTimersByTime(2000);
+      setAppState("active");
+      await act(() => flushMicrotasks());
+
+      expect(ensureLocation).toHaveBeenCalledWith(
+        expect.objectContaining({ cacheTTL: 1000 })
+      );
+      expect(source.currentPosition.calls).toHaveLength(2);
+    });
+
+    it("keeps a fresh cache on return", async () => {
+      const { source } = harness;
+      await renderWithLocation();
+
+      setAppState("background");
+      setAppState("active");
+      await act(() => flushMicrotasks());
+
+      expect(source.currentPosition.calls).toHaveLength(1);
+    });
+
+    it("only revalidates after the app was in the background", async () => {
+      await renderWithLocation();
+      const ensureLocation = jest.spyOn(harness.store, "ensureLocation");
+
+      setAppState("inactive");
+      setAppState("active");
+
+      expect(ensureLocation).not.toHaveBeenCalled();
+    });
+
+    it("does not revalidate when revalidateOnForeground is off", async () => {
+      await renderWithLocation({ revalidateOnForeground: false });
+      const ensureLocation = jest.spyOn(harness.store, "ensureLocation");
+
+      setAppState("background");
+      setAppState("active");
+
+      expect(ensureLocation).not.toHaveBeenCalled();
+    });
+
+    it("stops listening on unmount", async () => {
+      const { unmount } = await renderWithLocation();
+
+      unmount();
+
+      expect(appStateListeners.size).toBe(0);
+    });
+  });
+
+  describe("screen focus", () => {
+    it("revalidates on focus when enabled", async () => {
+      const { source } = harness;
+      const navigation = createFakeNavigation();
+      const { unmount } = await renderWithLocation(
+        { revalidateOnFocus: true },
+        navigation
+      );
+      const ensureLocation = jest.spyOn(harness.store, "ensureLocation");
+
+      jest.advanceTimersByTime(2000);
+      act(() => navigation.emit("focus"));
+      await act(() => flushMicrotasks());
+
+      expect(ensureLocation).toHaveBeenCalledTimes(1);
+      expect(source.currentPosition.calls).toHaveLength(2);
+
+      unmount();
+      navigation.emit("focus");
+      expect(ensureLocation).toHaveBeenCalledTimes(1);
+    });
+
+    it("ignores focus by default", async () => {
+      const navigation = createFakeNavigation();
+      await renderWithLocation({}, navigation);
+      const ensureLocation = jest.spyOn(harness.store, "ensureLocation");
+
+      act(() => navigation.emit("focus"));
+
+      expect(navigation.addListener).not.toHaveBeenCalledWith(
+        "focus",
+        expect.any(Function)
+      );
+      expect(ensureLocation).not.toHaveBeenCalled();
+    });
+  });
+});
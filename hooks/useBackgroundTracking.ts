@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  getBackgroundTrackingStatus,
+  startBackgroundTracking,
+  stopBackgroundTracking,
+  type BackgroundTrackingOptions,
+  type BackgroundTrackingStatus,
+} from "../lib/location/backgroundTracking";
+import { toLocationError, type LocationError } from "../lib/location/errors";
+
+/**
+ * Return type for the useBackgroundTracking hook
+ */
+export type UseBackgroundTrackingResult = {
+  /** Latest status, null until the first check completes */
+  status: BackgroundTrackingStatus | null;
+  /** Whether a start, stop or status check is in progress */
+  loading: boolean;
+  /** Typed error if starting failed (e.g. "always" permission denied) */
+  error: LocationError | null;
+  /** Requests "always" permission and starts tracking */
+  start: (options?: BackgroundTrackingOptions) => Promise<void>;
+  /** Stops tracking */
+  stop: () => Promise<void>;
+  /** Re-reads the status */
+  refresh: () => Promise<void>;
+};
+
+/**
+ * Controls background tracking from a component
+ * Updates go to the same store useLocation reads, so coords keep moving
+ * while this screen is unmounted or the app is in the background
+ *
+ * @example
+ * ```tsx
+ * const { status, start, stop } = useBackgroundTracking();
+ *
+ * return status?.isTracking ? (
+ *   <Button title="Stop delivery" onPress={stop} />
+ * ) : (
+ *   <Button title="Start delivery" onPress={() => start({ distanceInterval: 25 })} />
+ * );
+ * ```
+ */
+const useBackgroundTracking = (): UseBackgroundTrackingResult => {
+  const [status, setStatus] = useState<BackgroundTrackingStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<LocationError | null>(null);
+
+  const isMountedRef = useRef(true);
+
+  /**
+   * Runs an action, then re-reads the status
+   */
+  const run = useCallback(async (action?: () => Promise<void>) => {
+    if (isMountedRef.current) {
+      setLoading(true);
+      setError(null);
+    }
+    try {
+      await action?.();
+    } catch (trackingError) {
+      if (__DEV__) {
+        console.warn("Error controlling background tracking:", trackingError);
+      }
+      if (isMountedRef.current) setError(toLocationError(trackingError));
+    }
+
+    try {
+      const nextStatus = await getBackgroundTrackingStatus();
+      if (isMountedRef.current) setStatus(nextStatus);
+    } finally {
+      if (isMountedRef.current) setLoading(false);
+    }
+  }, []);
+
+  const start = useCallback(
+    (options?: BackgroundTrackingOptions) =>
+      run(() => startBackgroundTracking(options)),
+    [run]
+  );
+
+  const stop = useCallback(() => run(stopBackgroundTracking), [run]);
+
+  const refresh = useCallback(() => run(), [run]);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    void refresh();
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [refresh]);
+
+  return { status, loading, error, start, stop, refresh };
+};
+
+export default useBackgroundTracking;
+export { useBackgroundTracking };
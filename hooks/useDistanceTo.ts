@@ -0,0 +1,122 @@
+import type * as Location from "expo-location";
+import { useCallback, useMemo, useRef, useSyncExternalStore } from "react";
+import { useLocationStore } from "../components/LocationProvider";
+import {
+  cardinalDirection,
+  haversineDistance,
+  initialBearing,
+  isSignificantMove,
+  type CardinalDirection,
+  type Coordinates,
+} from "../lib/location/geo";
+
+const RECOMPUTE_DISTANCE = 25; // 25 meters - smaller moves rarely change what the UI shows
+
+/**
+ * Options for the distance hooks
+ */
+export type UseDistanceOptions = {
+  /**
+   * Minimum move in meters before distances are recomputed
+   * @default 25
+   */
+  significantChangeMeters?: number;
+  /**
+   * Also require the move to exceed the combined accuracy of the two fixes,
+   * so refinements of the same position do not trigger a recompute
+   * @default true
+   */
+  accuracyAwareChange?: boolean;
+};
+
+/**
+ * Return type for the useDistanceTo hook
+ */
+export type UseDistanceToResult = {
+  /** Great-circle distance in meters, null without a fix or target */
+  distance: number | null;
+  /** Initial bearing in degrees clockwise from true north, null without a fix or target */
+  bearing: number | null;
+  /** Eight-point compass direction of the bearing */
+  direction: CardinalDirection | null;
+  /** Fix the values were computed from */
+  origin: Location.LocationObjectCoords | null;
+};
+
+/**
+ * Reads the current coords from the store, ignoring moves below the threshold
+ * The returned object only changes on a significant move, so it is safe to use as a memo dependency
+ */
+export const useOriginCoords = (
+  options: UseDistanceOptions = {}
+): Location.LocationObjectCoords | null => {
+  const {
+    significantChangeMeters = RECOMPUTE_DISTANCE,
+    accuracyAwareChange = true,
+  } = options;
+
+  const store = useLocationStore();
+  const originRef = useRef<Location.LocationObjectCoords | null>(null);
+
+  const getOrigin = useCallback(() => {
+    const { coords } = store.getSnapshot();
+    const origin = originRef.current;
+    if (
+      !coords ||
+      !origin ||
+      isSignificantMove(
+        origin,
+        coords,
+        significantChangeMeters,
+        accuracyAwareChange
+      )
+    ) {
+      originRef.current = coords;
+    }
+    return originRef.current;
+  }, [store, significantChangeMeters, accuracyAwareChange]);
+
+  return useSyncExternalStore(store.subscribe, getOrigin, getOrigin);
+};
+
+/**
+ * Distance, bearing and compass direction from the current location to a target
+ * Only reads the shared location stream; pair it with useLocation to fetch or watch
+ *
+ * @param target - Coordinates to measure to, or null
+ * @param options - Recompute threshold
+ *
+ * @example
+ * ```tsx
+ * useLocation({ watch: true });
+ * const { distance, direction } = useDistanceTo(shop.coords);
+ *
+ * return <Text>{distance !== null && `${(distance / 1000).toFixed(1)} km ${direction}`}</Text>;
+ * ```
+ */
+const useDistanceTo = (
+  target: Coordinates | null | undefined,
+  options: UseDistanceOptions = {}
+): UseDistanceToResult => {
+  const origin = useOriginCoords(options);
+  const latitude = target?.latitude;
+  const longitude = target?.longitude;
+
+  return useMemo(() => {
+    if (!origin || latitude === undefined || longitude === undefined) {
+      return { distance: null, bearing: null, direction: null, origin };
+    }
+
+    const to = { latitude, longitude };
+    const bearing = initialBearing(origin, to);
+    return {
+      distance: haversineDistance(origin, to),
+      bearing,
+      direction: cardinalDirection(bearing),
+      origin,
+    };
+  }, [origin, latitude, longitude]);
+};
+
+export default useDistanceTo;
+export { useDistanceTo };
@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocationStore } from "../components/LocationProvider";
+import {
+  GeofenceMonitor,
+  type GeofenceEvent,
+  type GeofenceMonitorOptions,
+  type GeofenceRegion,
+  type GeofenceRegionState,
+} from "../lib/location/geofence";
+
+/**
+ * Options for the useGeofence hook
+ */
+export type UseGeofenceOptions = Omit<
+  GeofenceMonitorOptions,
+  "onEvent" | "onChange"
+> & {
+  /** Called when a fix is confidently inside a region it was not in */
+  onEnter?: (event: GeofenceEvent) => void;
+  /** Called when a fix is confidently outside a region it was in */
+  onExit?: (event: GeofenceEvent) => void;
+  /** Called once per visit after staying inside for dwellTime */
+  onDwell?: (event: GeofenceEvent) => void;
+  /**
+   * Whether to evaluate regions
+   * @default true
+   */
+  enabled?: boolean;
+};
+
+/**
+ * Return type for the useGeofence hook
+ */
+export type UseGeofenceResult = {
+  /** State of each region keyed by id */
+  states: Record<string, GeofenceRegionState>;
+  /** Ids of the regions currently inside */
+  inside: string[];
+};
+
+/**
+ * Watches circular and polygon regions on the shared location stream
+ *
+ * Features:
+ * - Enter, exit and dwell callbacks
+ * - Accuracy-based hysteresis so fixes at the boundary do not flap
+ * - Region state survives refreshes and changes to the regions array (matched by id)
+ *
+ * Only evaluates fixes that reach the store; pair it with `useLocation({ watch: true })`
+ * or background tracking for continuous updates
+ *
+ * @param regions - Regions to monitor, each with a unique id
+ * @param options - Callbacks and hysteresis/dwell tuning
+ *
+ * @example
+ * ```tsx
+ * useLocation({ watch: true });
+ * const { inside } = useGeofence(
+ *   [{ id: "store", type: "circle", center: storeCoords, radius: 150 }],
+ *   { onEnter: () => notify("Welcome!") }
+ * );
+ * ```
+ */
+const useGeofence = (
+  regions: GeofenceRegion[],
+  options: UseGeofenceOptions = {}
+): UseGeofenceResult => {
+  const {
+    enabled = true,
+    dwellTime,
+    hysteresisFactor,
+    minHysteresis,
+    maxHysteresis,
+  } = options;
+
+  const store = useLocationStore();
+  const [states, setStates] = useState<Record<string, GeofenceRegionState>>({});
+
+  const monitorRef = useRef<GeofenceMonitor | null>(null);
+  // Latest callbacks and regions, read without resubscribing
+  const optionsRef = useRef(options);
+  const regionsRef = useRef(regions);
+  useEffect(() => {
+    optionsRef.current = options;
+    regionsRef.current = regions;
+  });
+
+  // Evaluate every new fix published by the store
+  useEffect(() => {
+    if (!enabled) return;
+
+    const monitor = new GeofenceMonitor({
+      dwellTime,
+      hysteresisFactor,
+      minHysteresis,
+      maxHysteresis,
+      onEvent: (event) => {
+        const { onEnter, onExit, onDwell } = optionsRef.current;
+        if (event.type === "enter") onEnter?.(event);
+        else if (event.type === "exit") onExit?.(event);
+        else onDwell?.(event);
+      },
+      onChange: setStates,
+    });
+    monitorRef.current = monitor;
+    monitor.setRegions(regionsRef.current);
+
+    let lastCoords: object | null = null;
+    const handleSnapshot = () => {
+      const { coords, stale, timestamp } = store.getSnapshot();
+      // Skip stale cache entries and snapshots without a new fix
+      if (!coords || stale || coords === lastCoords) return;
+      lastCoords = coords;
+      monitor.update(coords, timestamp ?? Date.now());
+    };
+
+    handleSnapshot();
+    const unsubscribe = store.subscribe(handleSnapshot);
+
+    return () => {
+      unsubscribe();
+      monitor.dispose();
+      monitorRef.current = null;
+    };
+  }, [
+    store,
+    enabled,
+    dwellTime,
+    hysteresisFactor,
+    minHysteresis,
+    maxHysteresis,
+  ]);
+
+  // Apply region changes, keeping the state of regions with the same id
+  useEffect(() => {
+    monitorRef.current?.setRegions(regions);
+  }, [regions]);
+
+  return {
+    states,
+    inside: Object.keys(states).filter((id) => states[id].status === "inside"),
+  };
+};
+
+export default useGeofence;
+export { useGeofence };
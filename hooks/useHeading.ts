@@ -0,0 +1,212 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useLocationStore } from "../components/LocationProvider";
+import type { LocationError } from "../lib/location/errors";
+import { initialBearing, type Coordinates } from "../lib/location/geo";
+import {
+  angleDifference,
+  getHeadingMonitor,
+  relativeBearing,
+  smoothHeading,
+  type HeadingReading,
+} from "../lib/location/heading";
+import { useOriginCoords, type UseDistanceOptions } from "./useDistanceTo";
+
+/**
+ * Configuration constants for heading updates
+ */
+const HEADING_SMOOTHING_FACTOR = 0.3; // Each reading moves the angle 30% of the way - steadies a shaking needle
+const HEADING_THROTTLE_INTERVAL = 100; // 100 ms - at most 10 renders per second
+const MIN_HEADING_CHANGE = 1; // 1 degree - smaller turns are not visible on an arrow
+
+/**
+ * Options for the useHeading hook
+ */
+export type UseHeadingOptions = UseDistanceOptions & {
+  /**
+   * Coordinates to point towards; enables bearing and relativeBearing
+   */
+  target?: Coordinates | null;
+  /**
+   * Weight of each new reading, from 0 (frozen) to 1 (no smoothing)
+   * @default 0.3
+   */
+  smoothingFactor?: number;
+  /**
+   * Minimum time in milliseconds between updates
+   * @default 100
+   */
+  throttleInterval?: number;
+  /**
+   * Minimum turn in degrees before the heading updates
+   * @default 1
+   */
+  minHeadingChange?: number;
+  /**
+   * Whether starting the compass may show the OS permission prompt
+   * @default true
+   */
+  requestPermission?: boolean;
+  /**
+   * Whether to subscribe to the compass
+   * @default true
+   */
+  enabled?: boolean;
+};
+
+/**
+ * Return type for the useHeading hook
+ */
+export type UseHeadingResult = {
+  /** Smoothed degrees clockwise from true north (magnetic when true is unavailable) */
+  heading: number | null;
+  /** Smoothed degrees clockwise from true north, null when the device cannot tell */
+  trueHeading: number | null;
+  /** Smoothed degrees clockwise from magnetic north */
+  magneticHeading: number | null;
+  /** Compass calibration from 0 (none) to 3 (high) */
+  accuracy: number | null;
+  /** Bearing in degrees from the current location to the target */
+  bearing: number | null;
+  /**
+   * Rotation in degrees for an arrow pointing at the target (0 = straight ahead)
+   * Null without a true heading, since the bearing is relative to true north
+   */
+  relativeBearing: number | null;
+  /** Why the compass could not start */
+  error: LocationError | null;
+};
+
+/**
+ * Compass heading shared across components
+ *
+ * Features:
+ * - True and magnetic heading with calibration accuracy
+ * - Smoothing across the 359° → 0° wraparound, throttled to limit renders
+ * - One compass subscription for all mounted consumers, stopped when the last unmounts
+ * - Bearing to a target from the current location, relative to where the device points
+ *
+ * The bearing only reads the shared location stream; pair it with
+ * `useLocation({ watch: true })` to follow the user
+ *
+ * @param options - Target, smoothing and throttling
+ *
+ * @example
+ * ```tsx
+ * useLocation({ watch: true });
+ * const { relativeBearing } = useHeading({ target: shop.coords });
+ *
+ * <Arrow style={{ transform: [{ rotate: `${relativeBearing ?? 0}deg` }] }} />
+ * ```
+ */
+const useHeading = (options: UseHeadingOptions = {}): UseHeadingResult => {
+  const {
+    target,
+    smoothingFactor = HEADING_SMOOTHING_FACTOR,
+    throttleInterval = HEADING_THROTTLE_INTERVAL,
+    minHeadingChange = MIN_HEADING_CHANGE,
+    requestPermission = true,
+    enabled = true,
+  } = options;
+
+  const monitor = getHeadingMonitor(useLocationStore());
+  const origin = useOriginCoords(options);
+  const [reading, setReading] = useState<HeadingReading | null>(null);
+  const [error, setError] = useState<LocationError | null>(null);
+  // Smoothed reading, updated on every compass event even when not rendered
+  const smoothedRef = useRef<HeadingReading | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      // Stop showing where the device pointed before it was disabled
+      smoothedRef.current = null;
+      setReading(null);
+      setError(null);
+      return;
+    }
+
+    let lastRaw: HeadingReading | null = null;
+    let rendered: HeadingReading | null = null;
+    let lastRenderTime = 0;
+    let throttleTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+    const render = () => {
+      throttleTimeoutId = null;
+      const smoothed = smoothedRef.current;
+      if (
+        !smoothed ||
+        (rendered &&
+          rendered.accuracy === smoothed.accuracy &&
+          (rendered.trueHeading === null) === (smoothed.trueHeading === null) &&
+          Math.abs(angleDifference(rendered.heading, smoothed.heading)) <
+            minHeadingChange)
+      ) {
+        return;
+      }
+      rendered = smoothed;
+      lastRenderTime = Date.now();
+      setReading(smoothed);
+    };
+
+    const handleChange = () => {
+      setError(monitor.getError());
+      const next = monitor.getReading();
+      if (!next || next === lastRaw) return;
+      lastRaw = next;
+      smoothedRef.current = smoothHeading(
+        smoothedRef.current,
+        next,
+        smoothingFactor
+      );
+
+      if (throttleTimeoutId) return;
+      const wait = lastRenderTime + throttleInterval - Date.now();
+      if (wait > 0) {
+        throttleTimeoutId = setTimeout(render, wait);
+      } else {
+        render();
+      }
+    };
+
+    const unsubscribe = monitor.subscribe(handleChange, { requestPermission });
+    // Pick up the last reading when the compass is already running
+    handleChange();
+
+    return () => {
+      unsubscribe();
+      if (throttleTimeoutId) clearTimeout(throttleTimeoutId);
+    };
+  }, [
+    monitor,
+    enabled,
+    smoothingFactor,
+    throttleInterval,
+    minHeadingChange,
+    requestPermission,
+  ]);
+
+  const latitude = target?.latitude;
+  const longitude = target?.longitude;
+  const bearing = useMemo(
+    () =>
+      origin && latitude !== undefined && longitude !== undefined
+        ? initialBearing(origin, { latitude, longitude })
+        : null,
+    [origin, latitude, longitude]
+  );
+
+  return {
+    heading: reading?.heading ?? null,
+    trueHeading: reading?.trueHeading ?? null,
+    magneticHeading: reading?.magneticHeading ?? null,
+    accuracy: reading?.accuracy ?? null,
+    bearing,
+    relativeBearing:
+      bearing !== null && reading?.trueHeading != null
+        ? relativeBearing(bearing, reading.trueHeading)
+        : null,
+    error,
+  };
+};
+
+export default useHeading;
+export { useHeading };
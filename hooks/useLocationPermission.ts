@@ -0,0 +1,164 @@
+import * as Location from "expo-location";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AppState, Linking, type AppStateStatus } from "react-native";
+import { useLocationStore } from "../components/LocationProvider";
+import {
+  getPermissionState,
+  publishPermissionState,
+  subscribeToPermissionState,
+  type LocationAccuracyAuthorization,
+  type LocationPermissionState,
+} from "../lib/location/permission";
+
+export type { LocationAccuracyAuthorization, LocationPermissionState };
+
+/**
+ * Options for the useLocationPermission hook
+ */
+export type UseLocationPermissionOptions = {
+  /**
+   * Whether to re-check the status when the app returns to the foreground
+   * @default true
+   */
+  recheckOnForeground?: boolean;
+};
+
+/**
+ * Return type for the useLocationPermission hook
+ */
+export type UseLocationPermissionResult = LocationPermissionState & {
+  /** Whether the status is currently being checked or requested */
+  loading: boolean;
+  /** Shows the OS prompt (if it can still be shown) and returns the new state */
+  requestPermission: () => Promise<LocationPermissionState>;
+  /** Opens the app settings so a blocked permission can be enabled */
+  openSettings: () => Promise<void>;
+  /** Re-reads the current status without prompting */
+  refresh: () => Promise<LocationPermissionState>;
+};
+
+/**
+ * Companion hook to useLocation for building a permission-rationale flow
+ *
+ * Features:
+ * - Reads the status without showing the OS prompt
+ * - Exposes canAskAgain and precise/approximate authorization
+ * - Re-checks the status when the app returns to the foreground
+ * - Shares state across all mounted instances
+ *
+ * @param options - Optional configuration for permission checks
+ * @returns Permission state and actions to request it or open settings
+ *
+ * @example
+ * ```tsx
+ * const { status, canAskAgain, requestPermission, openSettings } =
+ *   useLocationPermission();
+ *
+ * if (status === "granted") return <Map />;
+ * return canAskAgain ? (
+ *   <Rationale onContinue={requestPermission} />
+ * ) : (
+ *   <Button title="Open settings" onPress={openSettings} />
+ * );
+ * ```
+ */
+const useLocationPermission = (
+  options: UseLocationPermissionOptions = {}
+): UseLocationPermissionResult => {
+  const { recheckOnForeground = true } = options;
+
+  const [state, setState] =
+    useState<LocationPermissionState>(getPermissionState);
+  const [loading, setLoading] = useState(
+    () => getPermissionState().status === null
+  );
+
+  const isMountedRef = useRef(true);
+  // Permission calls go through the same source as the location store
+  const { source } = useLocationStore();
+
+  /**
+   * Runs a permission call, publishing the result to every instance
+   */
+  const runPermissionCall = useCallback(
+    async (
+      call: () => Promise<Location.LocationPermissionResponse>
+    ): Promise<LocationPermissionState> => {
+      if (isMountedRef.current) setLoading(true);
+      try {
+        return publishPermissionState(await call());
+      } catch (permissionError) {
+        if (__DEV__) {
+          console.warn("Error checking location permission:", permissionError);
+        }
+        return getPermissionState();
+      } finally {
+        if (isMountedRef.current) setLoading(false);
+      }
+    },
+    []
+  );
+
+  const refresh = useCallback(
+    () => runPermissionCall(source.getForegroundPermissionsAsync),
+    [runPermissionCall, source]
+  );
+
+  const requestPermission = useCallback(
+    () => runPermissionCall(source.requestForegroundPermissionsAsync),
+    [runPermissionCall, source]
+  );
+
+  const openSettings = useCallback(async (): Promise<void> => {
+    try {
+      await Linking.openSettings();
+    } catch (settingsError) {
+      if (__DEV__) {
+        console.warn("Unable to open settings:", settingsError);
+      }
+    }
+  }, []);
+
+  // Subscribe to shared state and check the status on mount
+  useEffect(() => {
+    isMountedRef.current = true;
+
+    const listener = (nextState: LocationPermissionState) => {
+      if (isMountedRef.current) setState(nextState);
+    };
+    const unsubscribe = subscribeToPermissionState(listener);
+
+    void refresh();
+
+    return () => {
+      isMountedRef.current = false;
+      unsubscribe();
+    };
+  }, [refresh]);
+
+  // Re-check when returning from settings or another app
+  useEffect(() => {
+    if (!recheckOnForeground) return;
+
+    let previousAppState: AppStateStatus = AppState.currentState;
+    const subscription = AppState.addEventListener("change", (nextAppState) => {
+      if (previousAppState !== "active" && nextAppState === "active") {
+        void refresh();
+      }
+      previousAppState = nextAppState;
+    });
+
+    return () => subscription.remove();
+  }, [recheckOnForeground, refresh]);
+
+  return {
+    ...state,
+    loading,
+    requestPermission,
+    openSettings,
+    refresh,
+  };
+};
+
+export default useLocationPermission;
+export { useLocationPermission };
@@ -0,0 +1,66 @@
+import { useEffect, useMemo, useRef } from "react";
+import { haversineDistance, type Coordinates } from "../lib/location/geo";
+import { useOriginCoords, type UseDistanceOptions } from "./useDistanceTo";
+
+/**
+ * An item paired with its distance from the current location
+ */
+export type DistanceEntry<T> = {
+  item: T;
+  /** Distance in meters, null without a fix or when the item has no coords */
+  distance: number | null;
+};
+
+/**
+ * Sorts items by distance from the current location, nearest first
+ * Re-sorts only when the items array changes or the location moves significantly,
+ * so refinements and small moves do not re-sort large lists
+ *
+ * Items without coords keep their relative order at the end
+ * Without a fix the original order is kept
+ *
+ * @param items - Items to sort (memoize the array to avoid re-sorting on every render)
+ * @param getCoords - Extracts coordinates from an item (latest function is used, no need to memoize)
+ * @param options - Recompute threshold
+ *
+ * @example
+ * ```tsx
+ * const sorted = useSortedByDistance(shops, (shop) => shop.coords);
+ *
+ * <FlatList data={sorted} renderItem={({ item }) => <ShopRow shop={item.item} meters={item.distance} />} />
+ * ```
+ */
+const useSortedByDistance = <T>(
+  items: readonly T[],
+  getCoords: (item: T) => Coordinates | null | undefined,
+  options: UseDistanceOptions = {}
+): DistanceEntry<T>[] => {
+  const origin = useOriginCoords(options);
+
+  // Latest extractor, read without re-sorting
+  const getCoordsRef = useRef(getCoords);
+  useEffect(() => {
+    getCoordsRef.current = getCoords;
+  });
+
+  return useMemo(() => {
+    const entries = items.map((item) => {
+      const coords = getCoordsRef.current(item);
+      return {
+        item,
+        distance: origin && coords ? haversineDistance(origin, coords) : null,
+      };
+    });
+    if (!origin) return entries;
+
+    // Array.prototype.sort is stable, so ties and missing coords keep their order
+    return entries.sort((a, b) => {
+      if (a.distance === null) return b.distance === null ? 0 : 1;
+      if (b.distance === null) return -1;
+      return a.distance - b.distance;
+    });
+  }, [items, origin]);
+};
+
+export default useSortedByDistance;
+export { useSortedByDistance };
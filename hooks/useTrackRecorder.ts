@@ -0,0 +1,68 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { useLocationStore } from "../components/LocationProvider";
+import {
+  getTrackRecorder,
+  type TrackRecorder,
+  type TrackStartOptions,
+} from "../lib/location/trackRecorder";
+import type { TrackSession, TrackSessionStatus } from "../lib/location/tracks";
+
+/**
+ * Return type for the useTrackRecorder hook
+ */
+export type UseTrackRecorderResult = {
+  /** Current session, or the last stopped one until a new session starts */
+  session: TrackSession | null;
+  /** Status of the session, "idle" before the first start */
+  status: TrackSessionStatus | "idle";
+  /** Starts a new session (throws if one is already active) */
+  start: (options?: TrackStartOptions) => TrackSession;
+  pause: () => void;
+  resume: () => void;
+  /** Ends the session and resolves once it is stored */
+  stop: () => Promise<TrackSession | null>;
+  /** Recorder for listing, loading and deleting stored sessions */
+  recorder: TrackRecorder;
+};
+
+/**
+ * Records the route from the shared location stream
+ * The session belongs to the store, so it keeps recording when this component unmounts
+ *
+ * @example
+ * ```tsx
+ * const { session, status, start, pause, resume, stop } = useTrackRecorder();
+ *
+ * <Text>{((session?.distance ?? 0) / 1000).toFixed(2)} km</Text>
+ * {status === "recording" && <Button title="Pause" onPress={pause} />}
+ * ```
+ */
+const useTrackRecorder = (): UseTrackRecorderResult => {
+  const recorder = getTrackRecorder(useLocationStore());
+  const session = useSyncExternalStore(
+    recorder.subscribe,
+    recorder.getSnapshot,
+    recorder.getSnapshot
+  );
+
+  const start = useCallback(
+    (options?: TrackStartOptions) => recorder.start(options),
+    [recorder]
+  );
+  const pause = useCallback(() => recorder.pause(), [recorder]);
+  const resume = useCallback(() => recorder.resume(), [recorder]);
+  const stop = useCallback(() => recorder.stop(), [recorder]);
+
+  return {
+    session,
+    status: session?.status ?? "idle",
+    start,
+    pause,
+    resume,
+    stop,
+    recorder,
+  };
+};
+
+export default useTrackRecorder;
+export { useTrackRecorder };
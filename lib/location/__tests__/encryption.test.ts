@@ -0,0 +1,124 @@
+import {
+  createAesGcmCipher,
+  createSecureStoreKeyProvider,
+  ENCRYPTED_PAYLOAD_PREFIX,
+  openStoredValue,
+  sealStoredValue,
+  setLocationEncryption,
+  type EncryptionKeyProvider,
+  type SecureKeyStore,
+} from "../encryption";
+
+const createKeyProvider = (fill: number): EncryptionKeyProvider => ({
+  getKey: async () => new Uint8Array(32).fill(fill),
+});
+
+const createSecureStore = (): SecureKeyStore & {
+  items: Map<string, string>;
+} => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItemAsync: async (key) => items.get(key) ?? null,
+    setItemAsync: async (key, value) => {
+      items.set(key, value);
+    },
+  };
+};
+
+describe("createAesGcmCipher", () => {
+  it("round-trips a payload with the versioned prefix", async () => {
+    const cipher = createAesGcmCipher(createKeyProvider(1));
+    const plaintext = JSON.stringify({ latitude: 52.52, longitude: 13.405 });
+
+    const payload = await cipher.encrypt(plaintext);
+
+    expect(payload.startsWith(ENCRYPTED_PAYLOAD_PREFIX)).toBe(true);
+    expect(payload).not.toContain("52.52");
+    await expect(cipher.decrypt(payload)).resolves.toBe(plaintext);
+  });
+
+  it("uses a fresh IV for every payload", async () => {
+    const cipher = createAesGcmCipher(createKeyProvider(1));
+
+    const first = await cipher.encrypt("same");
+    const second = await cipher.encrypt("same");
+
+    expect(first).not.toBe(second);
+  });
+
+  it("rejects payloads sealed with another key or malformed", async () => {
+    const payload = await createAesGcmCipher(createKeyProvider(1)).encrypt(
+      "secret"
+    );
+    const cipher = createAesGcmCipher(createKeyProvider(2));
+
+    await expect(cipher.decrypt(payload)).rejects.toThrow();
+    await expect(cipher.decrypt("plain")).rejects.toThrow(
+      "Payload is not encrypted"
+    );
+    await expect(
+      cipher.decrypt(`${ENCRYPTED_PAYLOAD_PREFIX}missing`)
+    ).rejects.toThrow("Malformed encrypted payload");
+  });
+
+  it("retries loading the key after a failure", async () => {
+    const getKey = jest
+      .fn<Promise<Uint8Array>, []>()
+      .mockRejectedValueOnce(new Error("locked"))
+      .mockResolvedValue(new Uint8Array(32).fill(1));
+    const cipher = createAesGcmCipher({ getKey });
+
+    await expect(cipher.encrypt("secret")).rejects.toThrow("locked");
+    const payload = await cipher.encrypt("secret");
+
+    await expect(cipher.decrypt(payload)).resolves.toBe("secret");
+    expect(getKey).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("createSecureStoreKeyProvider", () => {
+  it("creates a key once and reuses it across providers", async () => {
+    const secureStore = createSecureStore();
+
+    const key = await createSecureStoreKeyProvider(secureStore).getKey();
+    const reloaded = await createSecureStoreKeyProvider(secureStore).getKey();
+
+    expect(key).toHaveLength(32);
+    expect(reloaded).toEqual(key);
+    expect(secureStore.items.size).toBe(1);
+  });
+});
+
+describe("sealStoredValue / openStoredValue", () => {
+  afterEach(() => {
+    setLocationEncryption(null);
+  });
+
+  it("keeps values as plain text without a cipher", async () => {
+    await expect(sealStoredValue("plain")).resolves.toBe("plain");
+    await expect(openStoredValue("plain")).resolves.toBe("plain");
+  });
+
+  it("round-trips values through the registered cipher", async () => {
+    setLocationEncryption(createAesGcmCipher(createKeyProvider(1)));
+
+    const sealed = await sealStoredValue("secret");
+
+    expect(sealed.startsWith(ENCRYPTED_PAYLOAD_PREFIX)).toBe(true);
+    await expect(openStoredValue(sealed)).resolves.toBe("secret");
+    // Values written before encryption was enabled stay readable
+    await expect(openStoredValue("legacy")).resolves.toBe("legacy");
+  });
+
+  it("returns null for payloads it cannot decrypt", async () => {
+    setLocationEncryption(createAesGcmCipher(createKeyProvider(1)));
+    const sealed = await sealStoredValue("secret");
+
+    setLocationEncryption(createAesGcmCipher(createKeyProvider(2)));
+    await expect(openStoredValue(sealed)).resolves.toBeNull();
+
+    setLocationEncryption(null);
+    await expect(openStoredValue(sealed)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  distanceToRegion,
+  GeofenceMonitor,
+  type GeofenceEvent,
+  type GeofenceRegion,
+} from "../geofence";
+import { EARTH_RADIUS_METERS, type Coordinates } from "../geo";
+
+const CENTER = { latitude: 48.8566, longitude: 2.3522 };
+const METERS_PER_DEGREE = (Math.PI / 180) * EARTH_RADIUS_METERS;
+
+/**
+ * Point the given distance north of CENTER
+ */
+const north = (meters: number, accuracy?: number): Coordinates => ({
+  latitude: CENTER.latitude + meters / METERS_PER_DEGREE,
+  longitude: CENTER.longitude,
+  accuracy,
+});
+
+const circle: GeofenceRegion = {
+  id: "circle",
+  type: "circle",
+  center: CENTER,
+  radius: 100,
+};
+
+describe("distanceToRegion", () => {
+  it("is negative inside a circle and positive outside", () => {
+    expect(distanceToRegion(north(40), circle)).toBeCloseTo(-60, 0);
+    expect(distanceToRegion(north(150), circle)).toBeCloseTo(50, 0);
+  });
+
+  it("measures the nearest polygon edge with the sign of containment", () => {
+    const south = north(-100).latitude;
+    const top = north(100).latitude;
+    const square: GeofenceRegion = {
+      id: "square",
+      type: "polygon",
+      points: [
+        { latitude: south, longitude: CENTER.longitude - 0.002 },
+        { latitude: south, longitude: CENTER.longitude + 0.002 },
+        { latitude: top, longitude: CENTER.longitude + 0.002 },
+        { latitude: top, longitude: CENTER.longitude - 0.002 },
+      ],
+    };
+
+    expect(distanceToRegion(north(70), square)).toBeCloseTo(-30, 0);
+    expect(distanceToRegion(north(130), square)).toBeCloseTo(30, 0);
+  });
+
+  it("treats a polygon with fewer than 3 points as unreachable", () => {
+    const line: GeofenceRegion = {
+      id: "line",
+      type: "polygon",
+      points: [CENTER, north(10)],
+    };
+
+    expect(distanceToRegion(CENTER, line)).toBe(Infinity);
+  });
+});
+
+describe("GeofenceMonitor", () => {
+  let events: GeofenceEvent[];
+  let monitor: GeofenceMonitor;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 1_700_000_000_000 });
+    events = [];
+    monitor = new GeofenceMonitor({
+      dwellTime: 1000,
+      onEvent: (event) => events.push(event),
+    });
+    monitor.setRegions([circle]);
+  });
+
+  afterEach(() => {
+    monitor.dispose();
+    jest.useRealTimers();
+  });
+
+  const eventTypes = () => events.map((event) => event.type);
+
+  it("decides the first fix without hysteresis", () => {
+    monitor.update(north(99, 50));
+
+    expect(monitor.getStates().circle.status).toBe("inside");
+    expect(eventTypes()).toEqual(["enter"]);
+  });
+
+  it("does not flap while a fix hovers within the margin", () => {
+    // 20 m accuracy gives a 10 m margin on each side of the boundary
+    monitor.update(north(50, 20));
+    monitor.update(north(105, 20));
+    monitor.update(north(95, 20));
+    monitor.update(north(109, 20));
+
+    expect(monitor.getStates().circle.status).toBe("inside");
+    expect(eventTypes()).toEqual(["enter"]);
+
+    monitor.update(north(111, 20));
+    monitor.update(north(95, 20));
+
+    expect(monitor.getStates().circle.status).toBe("outside");
+    expect(eventTypes()).toEqual(["enter", "exit"]);
+
+    monitor.update(north(89, 20));
+
+    expect(eventTypes()).toEqual(["enter", "exit", "enter"]);
+  });
+
+  it("caps the margin at half the radius so small circles stay reachable", () => {
+    monitor.setRegions([{ ...circle, radius: 20 }]);
+    monitor.update(north(100, 1000));
+    monitor.update(north(0, 1000));
+
+    expect(monitor.getStates().circle.status).toBe("inside");
+    expect(eventTypes()).toEqual(["enter"]);
+  });
+
+  it("fires dwell once after staying inside", () => {
+    monitor.update(north(0, 5));
+    jest.advanceTimersByTime(999);
+    expect(eventTypes()).toEqual(["enter"]);
+
+    jest.advanceTimersByTime(1);
+    monitor.update(north(10, 5));
+    jest.advanceTimersByTime(5000);
+
+    expect(eventTypes()).toEqual(["enter", "dwell"]);
+    expect(monitor.getStates().circle.dwelling).toBe(true);
+  });
+
+  it("cancels dwell when leaving before the dwell time", () => {
+    monitor.update(north(0, 5));
+    jest.advanceTimersByTime(500);
+    monitor.update(north(200, 5));
+    jest.advanceTimersByTime(5000);
+
+    expect(eventTypes()).toEqual(["enter", "exit"]);
+    expect(monitor.getStates().circle).toMatchObject({
+      status: "outside",
+      enteredAt: null,
+      dwelling: false,
+    });
+  });
+
+  it("keeps state for regions that keep their id and evaluates new ones", () => {
+    monitor.update(north(0, 5));
+    monitor.setRegions([
+      circle,
+      { id: "far", type: "circle", center: north(1000), radius: 50 },
+    ]);
+
+    expect(eventTypes()).toEqual(["enter"]);
+    expect(monitor.getStates()).toMatchObject({
+      circle: { status: "inside" },
+      far: { status: "outside" },
+    });
+
+    monitor.setRegions([]);
+    expect(monitor.getStates()).toEqual({});
+  });
+
+  it("notifies onChange once per update", () => {
+    const onChange = jest.fn();
+    const batched = new GeofenceMonitor({ onChange });
+    batched.setRegions([circle, { ...circle, id: "other" }]);
+    onChange.mockClear();
+
+    batched.update(north(0, 5));
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    batched.dispose();
+  });
+});
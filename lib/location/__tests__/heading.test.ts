@@ -0,0 +1,91 @@
+import {
+  angleDifference,
+  getHeadingMonitor,
+  relativeBearing,
+  smoothAngle,
+  smoothHeading,
+  toHeadingReading,
+} from "../heading";
+import { LocationStore } from "../locationStore";
+import { createMemoryStorageAdapter } from "../storage";
+import { createFakeLocationSource, flushMicrotasks } from "../testing";
+
+describe("angle helpers", () => {
+  it("takes the short way across north", () => {
+    expect(angleDifference(359, 1)).toBe(2);
+    expect(angleDifference(1, 359)).toBe(-2);
+    expect(angleDifference(90, 270)).toBe(180);
+  });
+
+  it("smooths across the 359 → 0 wraparound", () => {
+    expect(smoothAngle(350, 10, 0.5)).toBeCloseTo(0);
+    expect(smoothAngle(10, 350, 0.25)).toBeCloseTo(5);
+  });
+
+  it("rotates an arrow by the bearing relative to the heading", () => {
+    expect(relativeBearing(10, 350)).toBe(20);
+    expect(relativeBearing(350, 10)).toBe(340);
+  });
+});
+
+describe("toHeadingReading", () => {
+  it("treats a negative true heading as unavailable", () => {
+    expect(
+      toHeadingReading({ trueHeading: -1, magHeading: 361, accuracy: 2 }, 0)
+    ).toEqual({
+      trueHeading: null,
+      magneticHeading: 1,
+      heading: 1,
+      accuracy: 2,
+      timestamp: 0,
+    });
+  });
+});
+
+describe("smoothHeading", () => {
+  it("smooths each north reference and restarts a gained true heading", () => {
+    const previous = toHeadingReading(
+      { trueHeading: -1, magHeading: 358, accuracy: 3 },
+      0
+    );
+    const next = toHeadingReading(
+      { trueHeading: 6, magHeading: 2, accuracy: 3 },
+      1
+    );
+
+    const smoothed = smoothHeading(previous, next, 0.5);
+    expect(smoothed.magneticHeading).toBeCloseTo(0);
+    expect(smoothed.trueHeading).toBe(6);
+    expect(smoothed.heading).toBe(6);
+  });
+});
+
+describe("HeadingMonitor", () => {
+  it("shares one compass subscription while listeners remain", async () => {
+    const source = createFakeLocationSource();
+    const store = new LocationStore({
+      source,
+      storage: createMemoryStorageAdapter(),
+    });
+    const monitor = getHeadingMonitor(store);
+    expect(getHeadingMonitor(store)).toBe(monitor);
+
+    const first = jest.fn();
+    const second = jest.fn();
+    const unsubscribeFirst = monitor.subscribe(first);
+    const unsubscribeSecond = monitor.subscribe(second);
+    await flushMicrotasks();
+    expect(source.headingWatcherCount).toBe(1);
+
+    await source.emitHeading({ trueHeading: 90, magHeading: 88, accuracy: 3 });
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(monitor.getReading()?.heading).toBe(90);
+
+    unsubscribeFirst();
+    expect(source.headingWatcherCount).toBe(1);
+    unsubscribeSecond();
+    expect(source.headingWatcherCount).toBe(0);
+    expect(monitor.getReading()).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+import { EARTH_RADIUS_METERS, haversineDistance } from "../geo";
+import { LocationKalmanFilter } from "../kalman";
+import { createFix } from "../testing";
+
+const ORIGIN = { latitude: 40.7128, longitude: -74.006 };
+const START = 1_700_000_000_000;
+const METERS_PER_DEGREE = (Math.PI / 180) * EARTH_RADIUS_METERS;
+
+/**
+ * Fix the given distance north and east of ORIGIN
+ */
+const fixAt = (
+  northMeters: number,
+  eastMeters: number,
+  seconds: number,
+  accuracy: number | null = 20
+) =>
+  createFix(
+    {
+      latitude: ORIGIN.latitude + northMeters / METERS_PER_DEGREE,
+      longitude:
+        ORIGIN.longitude +
+        eastMeters /
+          (METERS_PER_DEGREE * Math.cos((ORIGIN.latitude * Math.PI) / 180)),
+      accuracy,
+    },
+    START + seconds * 1000
+  );
+
+// Fixed offsets in meters so the noise is the same on every run
+const NOISE = [18, -15, 9, -20, 12, -6, 16, -11, 4, -17, 14, -9];
+
+describe("LocationKalmanFilter", () => {
+  it("returns the first fix unchanged", () => {
+    const filter = new LocationKalmanFilter();
+    const fix = fixAt(0, 0, 0);
+
+    expect(filter.filter(fix)).toBe(fix);
+  });
+
+  it("smooths jitter around a stationary position", () => {
+    const filter = new LocationKalmanFilter();
+    let rawError = 0;
+    let smoothedError = 0;
+
+    NOISE.forEach((noise, index) => {
+      const fix = fixAt(noise, -noise / 2, index);
+      const smoothed = filter.filter(fix);
+      rawError += haversineDistance(fix.coords, ORIGIN);
+      smoothedError += haversineDistance(smoothed.coords, ORIGIN);
+    });
+
+    expect(smoothedError).toBeLessThan(rawError / 2);
+  });
+
+  it("follows steady movement", () => {
+    const filter = new LocationKalmanFilter();
+    let smoothed = filter.filter(fixAt(0, 0, 0, 5));
+    for (let second = 1; second <= 30; second++) {
+      smoothed = filter.filter(fixAt(second * 1.5, 0, second, 5));
+    }
+
+    // 45 m travelled at 1.5 m/s
+    expect(
+      haversineDistance(smoothed.coords, fixAt(45, 0, 30).coords)
+    ).toBeLessThan(3);
+  });
+
+  it("lets precise fixes pull harder than imprecise ones", () => {
+    const precise = new LocationKalmanFilter();
+    const imprecise = new LocationKalmanFilter();
+    precise.filter(fixAt(0, 0, 0, 20));
+    imprecise.filter(fixAt(0, 0, 0, 20));
+
+    const fromPrecise = precise.filter(fixAt(30, 0, 1, 5));
+    const fromImprecise = imprecise.filter(fixAt(30, 0, 1, 80));
+
+    expect(haversineDistance(fromPrecise.coords, ORIGIN)).toBeGreaterThan(
+      haversineDistance(fromImprecise.coords, ORIGIN)
+    );
+  });
+
+  it("never reports an accuracy worse than the raw fix", () => {
+    const filter = new LocationKalmanFilter();
+    filter.filter(fixAt(0, 0, 0, 10));
+
+    const smoothed = filter.filter(fixAt(5, 0, 1, 10));
+
+    expect(smoothed.coords.accuracy).toBeLessThanOrEqual(10);
+  });
+
+  it("assumes a default accuracy for fixes without one", () => {
+    const filter = new LocationKalmanFilter();
+    filter.filter(fixAt(0, 0, 0, null));
+
+    const smoothed = filter.filter(fixAt(10, 0, 1, null));
+
+    expect(smoothed.coords.accuracy).toBeLessThanOrEqual(50);
+    expect(smoothed.coords.latitude).not.toBe(ORIGIN.latitude);
+  });
+
+  it("returns fixes older than the previous one unchanged", () => {
+    const filter = new LocationKalmanFilter();
+    filter.filter(fixAt(0, 0, 10));
+    const late = fixAt(100, 0, 5);
+
+    expect(filter.filter(late)).toBe(late);
+  });
+
+  it("starts over after a long gap or a reset", () => {
+    const filter = new LocationKalmanFilter();
+    filter.filter(fixAt(0, 0, 0));
+    filter.filter(fixAt(0, 0, 1));
+
+    const afterGap = fixAt(500, 0, 62);
+    expect(filter.filter(afterGap)).toBe(afterGap);
+
+    filter.reset();
+    const afterReset = fixAt(0, 0, 10);
+    expect(filter.filter(afterReset)).toBe(afterReset);
+  });
+});
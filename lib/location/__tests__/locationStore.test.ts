@@ -0,0 +1,743 @@
+import * as Location from "expo-location";
+import { LocationStore } from "../locationStore";
+import { createMemoryStorageAdapter, setLocationStorage } from "../storage";
+import {
+  createAddress,
+  createFakeGeocoder,
+  createFakeLocationSource,
+  createFix,
+  createLocationTestHarness,
+  flushMicrotasks,
+  resetLocationModules,
+  type LocationTestHarness,
+} from "../testing";
+
+describe("LocationStore", () => {
+  let harness: LocationTestHarness;
+
+  beforeEach(() => {
+    harness = createLocationTestHarness();
+  });
+
+  afterEach(() => {
+    harness.store.reset();
+    resetLocationModules();
+  });
+
+  describe("forced refresh", () => {
+    const LISBON = createFix({ latitude: 38.7, longitude: -9.1, accuracy: 5 });
+
+    it("skips the last known position", async () => {
+      const { store, source } = harness;
+
+      const fetching = store.refresh({ force: true, enableRefinement: false });
+      await source.currentPosition.waitForCall();
+      expect(source.lastKnown.calls).toHaveLength(0);
+
+      await source.currentPosition.resolveNext(LISBON);
+      await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+      await fetching;
+      expect(store.getSnapshot().coords?.latitude).toBe(38.7);
+    });
+
+    it("still reads the last known position when skipLastKnown is false", async () => {
+      const { store, source } = harness;
+
+      const fetching = store.refresh({
+        force: true,
+        skipLastKnown: false,
+        enableRefinement: false,
+      });
+      await harness.resolveFix(LISBON, LISBON);
+      await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+      await fetching;
+
+      expect(source.lastKnown.calls).toHaveLength(1);
+    });
+
+    it("bypasses the reverse geocode cache", async () => {
+      const { store, geocoder } = harness;
+      const fetchLisbon = async (options: { force?: boolean }) => {
+        const fetching = store.refresh({ ...options, enableRefinement: false });
+        await harness.resolveFix(LISBON);
+        await fetching;
+        await flushMicrotasks();
+      };
+
+      await fetchLisbon({});
+      await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+      await fetchLisbon({});
+      expect(geocoder.requests.calls).toHaveLength(1);
+
+      const forced = store.refresh({ force: true, enableRefinement: false });
+      await harness.resolveFix(LISBON);
+      await harness.resolveGeocode(createAddress({ city: "Lisboa" }));
+      await forced;
+
+      expect(geocoder.requests.calls).toHaveLength(2);
+      expect(store.getSnapshot().address?.city).toBe("Lisboa");
+    });
+
+    it("aborts the running fetch and ignores its late fix", async () => {
+      const { store, source, geocoder } = harness;
+
+      const first = store.refresh({ enableRefinement: false });
+      await source.currentPosition.waitForCall();
+      const forced = store.refresh({ force: true, enableRefinement: false });
+      expect(store.refresh()).toBe(forced);
+      await first;
+
+      // The first fetch's requests answer late
+      await source.lastKnown.resolveNext(null);
+      await source.currentPosition.resolveNext(
+        createFix({ latitude: 10, longitude: 10, accuracy: 5 })
+      );
+      await source.currentPosition.resolveNext(LISBON);
+      await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+      await forced;
+
+      expect(geocoder.requests.calls).toEqual([
+        expect.objectContaining({ latitude: 38.7 }),
+      ]);
+      expect(store.getSnapshot()).toMatchObject({
+        coords: { latitude: 38.7 },
+        address: { city: "Lisbon" },
+        loading: false,
+      });
+    });
+
+    it("publishes coords and address together", async () => {
+      const { store } = harness;
+      const fetching = store.refresh({ enableRefinement: false });
+      await harness.resolveFix(LISBON);
+      await fetching;
+      await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+
+      const snapshots: ReturnType<typeof store.getSnapshot>[] = [];
+      const unsubscribe = store.subscribe(() =>
+        snapshots.push(store.getSnapshot())
+      );
+      const forced = store.refresh({ force: true, enableRefinement: false });
+      await harness.resolveFix(
+        createFix(
+          { latitude: 38.701, longitude: -9.1, accuracy: 5 },
+          Date.now() + 60 * 1000
+        )
+      );
+      expect(store.getSnapshot().coords?.latitude).toBe(38.7);
+
+      await harness.resolveGeocode(createAddress({ city: "Belém" }));
+      await forced;
+      unsubscribe();
+
+      expect(
+        snapshots.map(({ coords, address }) => [
+          coords?.latitude,
+          address?.city,
+        ])
+      ).not.toContainEqual([38.701, "Lisbon"]);
+      expect(store.getSnapshot()).toMatchObject({
+        coords: { latitude: 38.701 },
+        address: { city: "Belém" },
+      });
+    });
+  });
+
+  describe("timeout", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("fails with TIMEOUT after 15 seconds by default", async () => {
+      const { store, source } = harness;
+
+      const fetching = store.refresh();
+      await source.currentPosition.waitForCall();
+      jest.advanceTimersByTime(14_999);
+      await flushMicrotasks();
+      expect(store.getSnapshot()).toMatchObject({ loading: true, error: null });
+
+      jest.advanceTimersByTime(1);
+      await fetching;
+      expect(store.getSnapshot()).toMatchObject({
+        coords: null,
+        loading: false,
+        error: { code: "TIMEOUT" },
+      });
+    });
+
+    it("waits indefinitely when disabled", async () => {
+      const { store, source } = harness;
+
+      const fetching = store.refresh({ timeout: 0, enableRefinement: false });
+      await source.currentPosition.waitForCall();
+      jest.advanceTimersByTime(60 * 1000);
+      await flushMicrotasks();
+      expect(store.getSnapshot().loading).toBe(true);
+
+      await harness.resolveFix(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 5 })
+      );
+      await fetching;
+      expect(store.getSnapshot()).toMatchObject({
+        coords: { latitude: 38.7 },
+        error: null,
+      });
+    });
+
+    it("shows the expired cached location as stale", async () => {
+      const { store, source } = harness;
+      const fetching = store.refresh({
+        cacheTTL: 1000,
+        enableRefinement: false,
+      });
+      await harness.resolveFix(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 5 })
+      );
+      await fetching;
+      await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+      jest.advanceTimersByTime(5000);
+
+      const refetching = store.refresh({ timeout: 1000 });
+      await source.currentPosition.waitForCall();
+      jest.advanceTimersByTime(1000);
+      await refetching;
+
+      expect(store.getSnapshot()).toMatchObject({
+        coords: { latitude: 38.7 },
+        address: { city: "Lisbon" },
+        stale: true,
+        loading: false,
+        error: null,
+      });
+    });
+
+    it("falls back to the persisted location", async () => {
+      const storage = createMemoryStorageAdapter();
+      const source = createFakeLocationSource({ manual: true });
+      const persisting = new LocationStore({
+        source: createFakeLocationSource({
+          currentPosition: [
+            { value: createFix({ latitude: 38.7, longitude: -9.1 }) },
+          ],
+        }),
+        geocoder: createFakeGeocoder(),
+        storage,
+      });
+      await persisting.refresh({ enableRefinement: false });
+      await flushMicrotasks();
+      persisting.reset();
+
+      const store = new LocationStore({
+        source,
+        geocoder: createFakeGeocoder(),
+        storage,
+      });
+      const fetching = store.refresh({ timeout: 1000 });
+      await source.currentPosition.waitForCall();
+      jest.advanceTimersByTime(1000);
+      await fetching;
+      await flushMicrotasks();
+
+      expect(store.getSnapshot()).toMatchObject({
+        coords: { latitude: 38.7 },
+        stale: true,
+        error: null,
+      });
+      store.reset();
+    });
+
+    it("never lets a fix arriving after the timeout overwrite the state", async () => {
+      const { store, source, geocoder } = harness;
+
+      const fetching = store.refresh({ timeout: 1000 });
+      await source.currentPosition.waitForCall();
+      jest.advanceTimersByTime(1000);
+      await fetching;
+
+      await harness.resolveFix(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 5 })
+      );
+      expect(store.getSnapshot()).toMatchObject({
+        coords: null,
+        error: { code: "TIMEOUT" },
+      });
+      expect(geocoder.requests.calls).toHaveLength(0);
+      // Nothing else was requested (no refinement)
+      expect(source.currentPosition.calls).toHaveLength(1);
+    });
+  });
+
+  describe("refinement", () => {
+    it("publishes and caches a more accurate fix within the error margin", async () => {
+      const { store, source, geocoder, storage } = harness;
+
+      const fetching = store.refresh();
+      await harness.resolveFix(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 300 })
+      );
+      await fetching;
+      await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+
+      // 200m away, inside the 300m radius of the first fix
+      await harness.resolveRefinement(
+        createFix({ latitude: 38.7018, longitude: -9.1, accuracy: 8 })
+      );
+
+      expect(store.getSnapshot()).toMatchObject({
+        coords: { latitude: 38.7018, accuracy: 8 },
+        address: { city: "Lisbon" },
+      });
+      expect(geocoder.requests.calls).toHaveLength(1);
+      expect(source.currentPosition.pendingCount).toBe(0);
+      const persisted = JSON.parse(
+        (await storage.getItem(
+          store.storage.namespacedKey("cached_location")
+        )) ?? "null"
+      );
+      expect(persisted.coords.accuracy).toBe(8);
+    });
+  });
+
+  describe("desiredAccuracyMeters", () => {
+    it("climbs the ladder without waiting for the initial address", async () => {
+      const { store, source, geocoder } = harness;
+
+      const fetching = store.refresh({ desiredAccuracyMeters: 20 });
+      await harness.resolveFix(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 500 })
+      );
+      await fetching;
+      expect(geocoder.requests.pendingCount).toBe(1);
+
+      await harness.resolveRefinement(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 65 })
+      );
+      await harness.resolveRefinement(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 10 })
+      );
+      // Target reached at High, Highest is never requested
+      expect(source.currentPosition.calls.slice(1)).toEqual([
+        { accuracy: Location.LocationAccuracy.Balanced },
+        { accuracy: Location.LocationAccuracy.High },
+      ]);
+      expect(source.currentPosition.pendingCount).toBe(0);
+      expect(store.getSnapshot().coords?.accuracy).toBe(500);
+
+      await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+      expect(store.getSnapshot()).toMatchObject({
+        coords: { accuracy: 10 },
+        address: { city: "Lisbon" },
+      });
+    });
+
+    it("skips levels at or below initialAccuracy", async () => {
+      const { store, source } = harness;
+
+      const fetching = store.refresh({
+        desiredAccuracyMeters: 5,
+        initialAccuracy: Location.LocationAccuracy.Balanced,
+      });
+      await harness.resolveFix(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 65 })
+      );
+      await fetching;
+      await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+      await harness.resolveRefinement(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 10 })
+      );
+      await harness.resolveRefinement(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 5 })
+      );
+
+      expect(source.currentPosition.calls.slice(1)).toEqual([
+        { accuracy: Location.LocationAccuracy.High },
+        { accuracy: Location.LocationAccuracy.Highest },
+      ]);
+      expect(store.getSnapshot().coords?.accuracy).toBe(5);
+    });
+  });
+
+  describe("outlier rejection", () => {
+    const fetchPreciseFix = async () => {
+      const fetching = harness.store.refresh();
+      await harness.resolveFix(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 5 })
+      );
+      await fetching;
+      await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+      await harness.resolveRefinement(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 5 })
+      );
+    };
+
+    it("still refines when the first fix is rejected", async () => {
+      const { store, source } = harness;
+      const onRejectedFix = jest.fn();
+      await fetchPreciseFix();
+
+      const fetching = store.refresh({ onRejectedFix });
+      await harness.resolveFix(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 500 })
+      );
+      await fetching;
+      expect(onRejectedFix).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: "accuracy" })
+      );
+
+      await harness.resolveRefinement(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 4 })
+      );
+      expect(source.currentPosition.calls).toHaveLength(4);
+      expect(store.getSnapshot()).toMatchObject({
+        coords: { accuracy: 4 },
+        address: { city: "Lisbon" },
+        loading: false,
+      });
+    });
+
+    it("accepts a less accurate fix on a forced refresh", async () => {
+      const { store } = harness;
+      const onRejectedFix = jest.fn();
+      await fetchPreciseFix();
+
+      const fetching = store.refresh({ force: true, onRejectedFix });
+      await harness.resolveFix(
+        createFix({ latitude: 38.701, longitude: -9.1, accuracy: 500 })
+      );
+      await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+      await fetching;
+      expect(store.getSnapshot().coords).toMatchObject({
+        latitude: 38.701,
+        accuracy: 500,
+      });
+
+      await harness.resolveRefinement(
+        createFix({ latitude: 38.701, longitude: -9.1, accuracy: 65 })
+      );
+      expect(onRejectedFix).not.toHaveBeenCalled();
+      expect(store.getSnapshot().coords?.accuracy).toBe(65);
+    });
+  });
+
+  describe("watch", () => {
+    it("subscribes once permission is granted and stops on cleanup", async () => {
+      const { store, source } = harness;
+
+      const stop = store.watch();
+      expect(source.watcherCount).toBe(0);
+      await flushMicrotasks();
+      expect(source.watcherCount).toBe(1);
+
+      stop();
+      expect(source.watcherCount).toBe(0);
+    });
+
+    it("removes a subscription that resolves after cleanup", async () => {
+      const { store, source } = harness;
+
+      const stop = store.watch();
+      stop();
+      await flushMicrotasks();
+
+      expect(source.watcherCount).toBe(0);
+    });
+
+    it("reports a blocked permission without subscribing", async () => {
+      const { store, source } = harness;
+      source.setPermission("blocked");
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      const stop = store.watch();
+      await flushMicrotasks();
+      stop();
+      warn.mockRestore();
+
+      expect(source.watcherCount).toBe(0);
+      expect(store.getSnapshot().error?.code).toBe("PERMISSION_BLOCKED");
+    });
+
+    it("only geocodes fixes that moved significantly", async () => {
+      const { store, source, geocoder } = harness;
+
+      const stop = store.watch();
+      await flushMicrotasks();
+      await source.emit(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 5 })
+      );
+      expect(store.getSnapshot()).toMatchObject({
+        coords: { latitude: 38.7 },
+        loading: false,
+      });
+      await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+
+      // About 5m away - within significantChangeMeters
+      await source.emit(
+        createFix({ latitude: 38.70005, longitude: -9.1, accuracy: 5 })
+      );
+      expect(geocoder.requests.calls).toHaveLength(1);
+      expect(store.getSnapshot().coords?.latitude).toBe(38.7);
+
+      // About 110m away
+      await source.emit(
+        createFix({ latitude: 38.701, longitude: -9.1, accuracy: 5 })
+      );
+      expect(store.getSnapshot().coords?.latitude).toBe(38.701);
+      await harness.resolveGeocode(createAddress({ city: "Belém" }));
+      stop();
+
+      expect(geocoder.requests.calls).toHaveLength(2);
+      expect(store.getSnapshot().address?.city).toBe("Belém");
+    });
+
+    it("ignores fixes and addresses after cleanup", async () => {
+      const { store, source, geocoder } = harness;
+
+      const stop = store.watch();
+      await flushMicrotasks();
+      await source.emit(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 5 })
+      );
+      stop();
+      await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+      await source.emit(
+        createFix({ latitude: 38.71, longitude: -9.1, accuracy: 5 })
+      );
+
+      expect(store.getSnapshot()).toMatchObject({
+        coords: { latitude: 38.7 },
+        address: null,
+      });
+      expect(geocoder.requests.calls).toHaveLength(1);
+    });
+
+    it("keeps other watches running when one stops", async () => {
+      const { store, source } = harness;
+
+      const stopFirst = store.watch();
+      const stopSecond = store.watch();
+      await flushMicrotasks();
+      expect(source.watcherCount).toBe(2);
+
+      stopFirst();
+      await source.emit(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 5 })
+      );
+      expect(store.getSnapshot().coords?.latitude).toBe(38.7);
+
+      stopSecond();
+      expect(source.watcherCount).toBe(0);
+    });
+
+    it("publishes a more accurate fix without geocoding again", async () => {
+      const { store, source, geocoder } = harness;
+
+      const stop = store.watch();
+      await flushMicrotasks();
+      await source.emit(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 300 })
+      );
+      await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+      await source.emit(
+        createFix({ latitude: 38.7018, longitude: -9.1, accuracy: 8 })
+      );
+      stop();
+
+      expect(store.getSnapshot()).toMatchObject({
+        coords: { accuracy: 8 },
+        address: { city: "Lisbon" },
+      });
+      expect(geocoder.requests.calls).toHaveLength(1);
+    });
+
+    it("attaches a late address to a more accurate fix of the same place", async () => {
+      const { store, source } = harness;
+
+      const stop = store.watch();
+      await flushMicrotasks();
+      await source.emit(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 300 })
+      );
+      await source.emit(
+        createFix({ latitude: 38.7018, longitude: -9.1, accuracy: 8 })
+      );
+      await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+      stop();
+
+      expect(store.getSnapshot()).toMatchObject({
+        coords: { latitude: 38.7018, accuracy: 8 },
+        address: { city: "Lisbon" },
+      });
+    });
+
+    it("drops an address that resolves after a newer fix's", async () => {
+      jest.useFakeTimers();
+      const source = createFakeLocationSource();
+      const storage = createMemoryStorageAdapter();
+      const store = new LocationStore({
+        source,
+        storage,
+        geocoder: createFakeGeocoder({
+          responses: [
+            { value: createAddress({ city: "A" }), delay: 2000 },
+            { value: createAddress({ city: "B" }), delay: 500 },
+          ],
+        }),
+      });
+
+      try {
+        const stop = store.watch();
+        await flushMicrotasks();
+        await source.emit(
+          createFix({ latitude: 38.7, longitude: -9.1, accuracy: 10 })
+        );
+        jest.advanceTimersByTime(1000);
+        await source.emit(
+          createFix({ latitude: 38.7005, longitude: -9.1, accuracy: 10 })
+        );
+
+        await jest.advanceTimersByTimeAsync(500);
+        expect(store.getSnapshot()).toMatchObject({
+          coords: { latitude: 38.7005 },
+          address: { city: "B" },
+        });
+
+        await jest.advanceTimersByTimeAsync(1500);
+        stop();
+        expect(store.getSnapshot()).toMatchObject({
+          coords: { latitude: 38.7005 },
+          address: { city: "B" },
+        });
+        await jest.advanceTimersByTimeAsync(2000);
+        const persisted = JSON.parse(
+          (await storage.getItem(
+            store.storage.namespacedKey("cached_location")
+          )) ?? "null"
+        );
+        expect(persisted).toMatchObject({
+          coords: { latitude: 38.7005 },
+          address: { city: "B" },
+        });
+      } finally {
+        store.reset();
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe("storage", () => {
+    it("persists under its own namespace with the registered adapter", async () => {
+      const adapter = createMemoryStorageAdapter();
+      setLocationStorage(adapter);
+      const source = createFakeLocationSource({
+        currentPosition: [
+          { value: createFix({ latitude: 1, longitude: 2, accuracy: 10 }) },
+        ],
+      });
+      const store = new LocationStore({
+        source,
+        geocoder: createFakeGeocoder(),
+        storageNamespace: "coarse",
+      });
+
+      await store.refresh({ enableRefinement: false });
+      await flushMicrotasks();
+      store.reset();
+
+      expect(Array.from(adapter.store.keys())).toContain(
+        "coarse:cached_location"
+      );
+      expect(adapter.store.has("expo-location-hook:cached_location")).toBe(
+        false
+      );
+    });
+  });
+
+  describe("legacy storage", () => {
+    const legacyLocation = () =>
+      JSON.stringify({
+        coords: createFix({ latitude: 38.7, longitude: -9.1, accuracy: 5 })
+          .coords,
+        address: null,
+        timestamp: Date.now(),
+        cacheTTL: 5 * 60 * 1000,
+      });
+
+    it("migrates the un-namespaced key only into the default scope", async () => {
+      const adapter = createMemoryStorageAdapter({
+        cached_location: legacyLocation(),
+      });
+      setLocationStorage(adapter);
+      const createStore = (storageNamespace?: string) =>
+        new LocationStore({
+          source: createFakeLocationSource(),
+          geocoder: createFakeGeocoder(),
+          storageNamespace,
+        });
+      const coarse = createStore("coarse");
+      const global = createStore();
+
+      // A namespaced scope sharing the adapter starts empty
+      await coarse.ensureLocation({ enableRefinement: false });
+      await flushMicrotasks();
+      await coarse.ensureLocation({ enableRefinement: false });
+      expect(coarse.getSnapshot().coords).toBeNull();
+      expect(adapter.store.has("coarse:cached_location")).toBe(false);
+      expect(adapter.store.has("cached_location")).toBe(true);
+
+      await global.ensureLocation({ enableRefinement: false });
+      await flushMicrotasks();
+      await global.ensureLocation({ enableRefinement: false });
+      expect(global.getSnapshot().coords?.latitude).toBe(38.7);
+      expect(Array.from(adapter.store.keys())).toEqual([
+        "expo-location-hook:cached_location",
+      ]);
+
+      coarse.reset();
+      global.reset();
+    });
+  });
+
+  describe("errors", () => {
+    it("keeps the underlying cause when no fix arrives", async () => {
+      const { store, source } = harness;
+      const cause = new Error("Location request failed");
+
+      const fetching = store.refresh();
+      await source.currentPosition.waitForCall();
+      await source.lastKnown.resolveNext(null);
+      await source.currentPosition.rejectNext(cause);
+      await fetching;
+
+      const { error } = store.getSnapshot();
+      expect(error?.code).toBe("NO_FIX");
+      expect(error?.cause).toBe(cause);
+    });
+
+    it("clears GEOCODE_FAILED once an address resolves", async () => {
+      const { store, geocoder } = harness;
+
+      const fetching = store.refresh();
+      await harness.resolveFix(
+        createFix({ latitude: 38.7, longitude: -9.1, accuracy: 80 })
+      );
+      await fetching;
+      await geocoder.requests.rejectNext(new Error("Geocoder offline"));
+      expect(store.getSnapshot().error?.code).toBe("GEOCODE_FAILED");
+
+      await harness.resolveRefinement(
+        createFix({ latitude: 38.701, longitude: -9.1, accuracy: 5 })
+      );
+      await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+
+      expect(store.getSnapshot()).toMatchObject({
+        address: { city: "Lisbon" },
+        error: null,
+      });
+    });
+  });
+});
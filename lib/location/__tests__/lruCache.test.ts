@@ -0,0 +1,76 @@
+import { estimateJsonSize, LruCache } from "../lruCache";
+
+const keys = <K, V>(cache: LruCache<K, V>): K[] =>
+  cache.snapshot().map(({ key }) => key);
+
+describe("LruCache", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 1_700_000_000_000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("evicts the least recently used entry beyond maxSize", () => {
+    const cache = new LruCache<string, number>({ maxSize: 2, ttl: 1000 });
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+    cache.set("c", 3);
+
+    expect(keys(cache)).toEqual(["a", "c"]);
+    expect(cache.stats().evictions).toBe(1);
+  });
+
+  it("treats entries as misses once their TTL elapsed", () => {
+    const cache = new LruCache<string, number>({ maxSize: 10, ttl: 1000 });
+    cache.set("a", 1);
+
+    jest.advanceTimersByTime(999);
+    expect(cache.get("a")).toBe(1);
+
+    jest.advanceTimersByTime(1);
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.size).toBe(0);
+    expect(cache.stats()).toMatchObject({
+      hits: 1,
+      misses: 1,
+      expirations: 1,
+    });
+  });
+
+  it("lets an entry override the cache-wide TTL", () => {
+    const cache = new LruCache<string, number>({ maxSize: 10, ttl: 1000 });
+    cache.set("short", 1, Date.now(), 100);
+    cache.set("produced earlier", 2, Date.now() - 900);
+
+    jest.advanceTimersByTime(100);
+    expect(cache.has("short")).toBe(false);
+    expect(cache.has("produced earlier")).toBe(false);
+  });
+
+  it("stays within the memory budget", () => {
+    const cache = new LruCache<string, string>({
+      maxSize: 10,
+      ttl: 1000,
+      maxBytes: 20,
+      sizeOf: estimateJsonSize,
+    });
+    cache.set("a", "1234"); // 12 bytes with quotes
+    cache.set("b", "1234");
+
+    expect(keys(cache)).toEqual(["b"]);
+    expect(cache.stats()).toMatchObject({ size: 1, bytes: 12 });
+  });
+
+  it("evicts immediately when a limit shrinks", () => {
+    const cache = new LruCache<string, number>({ maxSize: 3, ttl: 1000 });
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.set("c", 3);
+
+    cache.configure({ maxSize: 1 });
+    expect(keys(cache)).toEqual(["c"]);
+  });
+});
@@ -0,0 +1,71 @@
+import { checkFixPlausibility } from "../outliers";
+import { createFix } from "../testing";
+
+const START = 1_700_000_000_000;
+
+describe("checkFixPlausibility", () => {
+  const reference = createFix(
+    { latitude: 38.7, longitude: -9.1, accuracy: 10 },
+    START
+  );
+
+  it("accepts any fix without a reference", () => {
+    expect(checkFixPlausibility(reference, null)).toBeNull();
+  });
+
+  it("accepts a plausible move", () => {
+    // ~110m in 60 seconds
+    const fix = createFix(
+      { latitude: 38.701, longitude: -9.1, accuracy: 12 },
+      START + 60 * 1000
+    );
+    expect(checkFixPlausibility(fix, reference)).toBeNull();
+  });
+
+  it("rejects a jump faster than maxPlausibleSpeed", () => {
+    // ~11km in 10 seconds
+    const fix = createFix(
+      { latitude: 38.8, longitude: -9.1, accuracy: 10 },
+      START + 10 * 1000
+    );
+    const rejection = checkFixPlausibility(fix, reference);
+    expect(rejection?.reason).toBe("speed");
+    expect(rejection?.impliedSpeed).toBeGreaterThan(1000);
+  });
+
+  it("measures speed beyond the accuracy radii", () => {
+    // 500m in 1 second, but within the 600m radius of a cell fix
+    const fix = createFix(
+      { latitude: 38.7045, longitude: -9.1, accuracy: 600 },
+      START + 1000
+    );
+    const rejection = checkFixPlausibility(fix, reference, {
+      outlierAccuracyFactor: 100,
+    });
+    expect(rejection).toBeNull();
+  });
+
+  it("rejects a much less accurate fix while the reference is recent", () => {
+    const fix = createFix(
+      { latitude: 38.7, longitude: -9.1, accuracy: 500 },
+      START + 30 * 1000
+    );
+    expect(checkFixPlausibility(fix, reference)?.reason).toBe("accuracy");
+  });
+
+  it("accepts a less accurate fix once the reference is old", () => {
+    const fix = createFix(
+      { latitude: 38.7, longitude: -9.1, accuracy: 500 },
+      START + 3 * 60 * 1000
+    );
+    expect(checkFixPlausibility(fix, reference)).toBeNull();
+  });
+
+  it("rejects a fix older than the reference", () => {
+    const fix = createFix(
+      { latitude: 38.7, longitude: -9.1, accuracy: 5 },
+      START - 1000
+    );
+    expect(checkFixPlausibility(fix, reference)?.reason).toBe("outdated");
+  });
+});
@@ -0,0 +1,143 @@
+import { LocationStore } from "../locationStore";
+import {
+  createMemoryStorageAdapter,
+  createStorageScope,
+  getLocationStorage,
+  globalStorageScope,
+  namespacedKey,
+  noopStorageAdapter,
+  setLocationStorage,
+} from "../storage";
+import {
+  createFakeGeocoder,
+  createFakeLocationSource,
+  createFix,
+  flushMicrotasks,
+  resetLocationModules,
+} from "../testing";
+
+const LEGACY_LOCATION = JSON.stringify({
+  coords: createFix({ latitude: 38.7, longitude: -9.1, accuracy: 5 }).coords,
+  address: null,
+  timestamp: Date.now(),
+  cacheTTL: 5 * 60 * 1000,
+});
+
+/**
+ * Store whose fixes always fail, so only persisted data can show up
+ */
+const createOfflineStore = () =>
+  new LocationStore({
+    source: createFakeLocationSource(),
+    geocoder: createFakeGeocoder(),
+  });
+
+/**
+ * Lets the store hydrate, then shows what it loaded
+ */
+const hydrate = async (store: LocationStore) => {
+  await store.ensureLocation({ enableRefinement: false });
+  await flushMicrotasks();
+  await store.ensureLocation({ enableRefinement: false });
+};
+
+describe("storage", () => {
+  afterEach(() => {
+    resetLocationModules();
+  });
+
+  it("registers the adapter and namespace used by the default scope", async () => {
+    const adapter = createMemoryStorageAdapter();
+    expect(namespacedKey("key")).toBe("expo-location-hook:key");
+
+    setLocationStorage(adapter, { namespace: "app" });
+
+    expect(getLocationStorage()).toBe(adapter);
+    expect(globalStorageScope.adapter).toBe(adapter);
+    expect(globalStorageScope.namespacedKey("key")).toBe("app:key");
+  });
+
+  it("creates scopes that follow the registered adapter unless given one", () => {
+    const own = createMemoryStorageAdapter();
+    const following = createStorageScope(undefined, { namespace: "coarse" });
+    const pinned = createStorageScope(own);
+
+    const registered = createMemoryStorageAdapter();
+    setLocationStorage(registered);
+
+    expect(following.adapter).toBe(registered);
+    expect(following.namespacedKey("key")).toBe("coarse:key");
+    expect(pinned.adapter).toBe(own);
+    expect(pinned.namespacedKey("key")).toBe("expo-location-hook:key");
+  });
+
+  it("persists the location under the registered namespace", async () => {
+    const adapter = createMemoryStorageAdapter();
+    setLocationStorage(adapter, { namespace: "app" });
+    const store = new LocationStore({
+      source: createFakeLocationSource({
+        currentPosition: [
+          { value: createFix({ latitude: 38.7, longitude: -9.1 }) },
+        ],
+      }),
+      geocoder: createFakeGeocoder(),
+    });
+
+    await store.refresh({ enableRefinement: false });
+    await flushMicrotasks();
+    store.reset();
+
+    expect(Array.from(adapter.store.keys())).toEqual(["app:cached_location"]);
+  });
+
+  it("persists nothing with the no-op adapter", async () => {
+    await noopStorageAdapter.setItem("key", "value");
+
+    await expect(noopStorageAdapter.getItem("key")).resolves.toBeNull();
+  });
+
+  describe("legacy key", () => {
+    it("migrates the un-namespaced location into the default namespace", async () => {
+      const adapter = createMemoryStorageAdapter({
+        cached_location: LEGACY_LOCATION,
+      });
+      setLocationStorage(adapter);
+      const store = createOfflineStore();
+
+      await hydrate(store);
+      store.reset();
+
+      expect(Array.from(adapter.store.entries())).toEqual([
+        ["expo-location-hook:cached_location", LEGACY_LOCATION],
+      ]);
+    });
+
+    it("shows the migrated location", async () => {
+      setLocationStorage(
+        createMemoryStorageAdapter({ cached_location: LEGACY_LOCATION })
+      );
+      const store = createOfflineStore();
+
+      await hydrate(store);
+
+      expect(store.getSnapshot().coords?.latitude).toBe(38.7);
+      store.reset();
+    });
+
+    it("prefers the namespaced location over the legacy key", async () => {
+      const current = LEGACY_LOCATION.replace("38.7", "40.4");
+      const adapter = createMemoryStorageAdapter({
+        cached_location: LEGACY_LOCATION,
+        "expo-location-hook:cached_location": current,
+      });
+      setLocationStorage(adapter);
+      const store = createOfflineStore();
+
+      await hydrate(store);
+
+      expect(store.getSnapshot().coords?.latitude).toBe(40.4);
+      expect(adapter.store.get("cached_location")).toBe(LEGACY_LOCATION);
+      store.reset();
+    });
+  });
+});
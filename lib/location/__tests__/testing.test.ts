@@ -0,0 +1,72 @@
+import {
+  createAddress,
+  createFakeLocationSource,
+  createFix,
+  createLocationTestHarness,
+  resetLocationModules,
+  type LocationTestHarness,
+} from "../testing";
+
+afterEach(resetLocationModules);
+
+describe("createLocationTestHarness", () => {
+  let harness: LocationTestHarness;
+
+  // Cancels pending geocode cache writes
+  afterEach(() => harness.store.reset());
+
+  it("steps through fetch, geocode and refinement", async () => {
+    harness = createLocationTestHarness();
+
+    const fetching = harness.store.refresh();
+    await harness.resolveFix(
+      createFix({ latitude: 1, longitude: 2, accuracy: 80 })
+    );
+    await fetching;
+    expect(harness.store.getSnapshot()).toMatchObject({
+      coords: { latitude: 1, longitude: 2 },
+      address: null,
+      loading: false,
+    });
+
+    await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+    expect(harness.store.getSnapshot().address?.city).toBe("Lisbon");
+
+    await harness.resolveRefinement(
+      createFix({ latitude: 1.001, longitude: 2, accuracy: 5 })
+    );
+    await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+    expect(harness.store.getSnapshot().coords?.accuracy).toBe(5);
+  });
+
+  it("reports a blocked prompt as PERMISSION_BLOCKED", async () => {
+    harness = createLocationTestHarness({
+      permission: "undetermined",
+      promptOutcome: "blocked",
+    });
+
+    await harness.store.refresh();
+
+    expect(harness.source.permissionRequests).toBe(1);
+    expect(harness.store.getSnapshot().error?.code).toBe("PERMISSION_BLOCKED");
+  });
+});
+
+describe("createFakeLocationSource", () => {
+  it("delivers emitted fixes to active watchers only", async () => {
+    const source = createFakeLocationSource();
+    const received: number[] = [];
+
+    const subscription = await source.watchPositionAsync({}, (fix) => {
+      received.push(fix.coords.latitude);
+    });
+    expect(source.watcherCount).toBe(1);
+
+    await source.emit(createFix({ latitude: 1, longitude: 0 }));
+    subscription.remove();
+    await source.emit(createFix({ latitude: 2, longitude: 0 }));
+
+    expect(received).toEqual([1]);
+    expect(source.watcherCount).toBe(0);
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  getTrackAverageSpeed,
+  getTrackDuration,
+  toGeoJson,
+  toGpx,
+  type TrackPoint,
+  type TrackSession,
+} from "../tracks";
+
+const START = Date.UTC(2024, 0, 1, 12, 0, 0);
+
+const point = (
+  latitude: number,
+  seconds: number,
+  altitude: number | null = null
+): TrackPoint => ({
+  latitude,
+  longitude: 13.405,
+  altitude,
+  accuracy: 5,
+  speed: null,
+  heading: null,
+  timestamp: START + seconds * 1000,
+});
+
+const createSession = (
+  overrides: Partial<TrackSession> = {}
+): TrackSession => ({
+  id: "track-1",
+  name: "Morning <run> & more",
+  status: "stopped",
+  startedAt: START,
+  endedAt: START + 120_000,
+  segments: [
+    [point(52.52, 0, 34), point(52.521, 30, 35)],
+    [],
+    [point(52.522, 90)],
+  ],
+  distance: 200,
+  duration: 80_000,
+  activeSince: null,
+  ...overrides,
+});
+
+describe("getTrackDuration", () => {
+  it("adds the running stretch while recording", () => {
+    const session = createSession({
+      status: "recording",
+      activeSince: START + 100_000,
+    });
+
+    expect(getTrackDuration(session, START + 110_000)).toBe(90_000);
+    expect(getTrackAverageSpeed(session, START + 110_000)).toBeCloseTo(
+      200 / 90
+    );
+  });
+
+  it("reports no speed before any time was recorded", () => {
+    expect(getTrackAverageSpeed(createSession({ duration: 0 }))).toBe(0);
+  });
+});
+
+describe("toGpx", () => {
+  it("writes one escaped track with a segment per recorded stretch", () => {
+    const gpx = toGpx(createSession());
+
+    expect(gpx).toContain('<gpx version="1.1"');
+    expect(gpx).toContain("<name>Morning &lt;run&gt; &amp; more</name>");
+    expect(gpx.match(/<trkseg>/g)).toHaveLength(2);
+    expect(gpx).toContain(
+      '<trkpt lat="52.52" lon="13.405"><ele>34</ele><time>2024-01-01T12:00:00.000Z</time></trkpt>'
+    );
+    expect(gpx).toContain(
+      '<trkpt lat="52.522" lon="13.405"><time>2024-01-01T12:01:30.000Z</time></trkpt>'
+    );
+  });
+
+  it("omits the name when the session has none", () => {
+    expect(toGpx(createSession({ name: null }))).not.toContain("<name>");
+  });
+});
+
+describe("toGeoJson", () => {
+  it("joins segments into one line with times and totals", () => {
+    const geoJson = toGeoJson(createSession());
+
+    expect(geoJson.geometry).toEqual({
+      type: "LineString",
+      coordinates: [
+        [13.405, 52.52, 34],
+        [13.405, 52.521, 35],
+        [13.405, 52.522],
+      ],
+    });
+    expect(geoJson.properties).toEqual({
+      id: "track-1",
+      name: "Morning <run> & more",
+      startedAt: "2024-01-01T12:00:00.000Z",
+      endedAt: "2024-01-01T12:02:00.000Z",
+      distance: 200,
+      duration: 80_000,
+      averageSpeed: 2.5,
+      coordTimes: [
+        "2024-01-01T12:00:00.000Z",
+        "2024-01-01T12:00:30.000Z",
+        "2024-01-01T12:01:30.000Z",
+      ],
+    });
+  });
+
+  it("leaves endedAt null while the session is active", () => {
+    const geoJson = toGeoJson(
+      createSession({ status: "paused", endedAt: null })
+    );
+
+    expect(geoJson.properties.endedAt).toBeNull();
+  });
+});
@@ -0,0 +1,209 @@
+import * as Location from "expo-location";
+import * as TaskManager from "expo-task-manager";
+import { LocationError } from "./errors";
+import {
+  defaultLocationStore,
+  type LocationFetchOptions,
+  type LocationStore,
+} from "./locationStore";
+import { ensureForegroundPermission } from "./permission";
+
+/**
+ * Name of the task that receives background location updates
+ */
+export const BACKGROUND_LOCATION_TASK =
+  "expo-location-hook.background-location";
+
+const BACKGROUND_DISTANCE_INTERVAL = 50; // 50 meters between background updates
+const BACKGROUND_TIME_INTERVAL = 60 * 1000; // 1 minute between background updates (Android)
+
+/**
+ * Options for startBackgroundTracking
+ */
+export type BackgroundTrackingOptions = {
+  /**
+   * Accuracy level used for background updates
+   * @default Location.LocationAccuracy.Balanced
+   */
+  accuracy?: Location.LocationAccuracy;
+  /**
+   * Minimum distance in meters between updates
+   * @default 50
+   */
+  distanceInterval?: number;
+  /**
+   * Minimum time in milliseconds between updates (Android only)
+   * @default 60 * 1000 (1 minute)
+   */
+  timeInterval?: number;
+  /**
+   * Persistent notification that keeps the Android service alive
+   * Required for updates while the app is in the background on Android
+   */
+  foregroundService?: Location.LocationTaskServiceOptions;
+  /**
+   * Whether iOS shows the blue status bar indicator while tracking
+   * @default true
+   */
+  showsBackgroundLocationIndicator?: boolean;
+  /**
+   * Whether iOS may pause updates when the device is stationary
+   * @default false
+   */
+  pausesUpdatesAutomatically?: boolean;
+  /**
+   * iOS hint about the kind of movement being tracked
+   * @default Location.ActivityType.Other
+   */
+  activityType?: Location.ActivityType;
+};
+
+/**
+ * Current state of background tracking
+ */
+export type BackgroundTrackingStatus = {
+  /** Whether defineBackgroundLocationTask was called in this JS context */
+  isTaskDefined: boolean;
+  /** Whether location updates are being delivered to the task */
+  isTracking: boolean;
+  /** Background ("always") permission status */
+  permission: Location.PermissionStatus;
+  /** Whether the device and app configuration support background location */
+  isAvailable: boolean;
+};
+
+/**
+ * Data delivered to the task by expo-location
+ */
+type BackgroundLocationTaskData = {
+  locations: Location.LocationObject[];
+};
+
+/**
+ * Store and options used by the task, set by defineBackgroundLocationTask
+ */
+let taskStore: LocationStore = defaultLocationStore;
+let taskFetchOptions: LocationFetchOptions = {};
+
+/**
+ * Defines the task that pushes background updates into the store useLocation reads
+ * Must be called in the global scope (e.g. at the top of the root layout), not in a component,
+ * so the task exists when the OS relaunches the app in the background
+ *
+ * @param store - Store that receives the updates
+ * @param options - Geocoding and significant-change options for incoming fixes
+ *
+ * @example
+ * ```ts
+ * // app/_layout.tsx
+ * defineBackgroundLocationTask();
+ * ```
+ */
+export const defineBackgroundLocationTask = (
+  store: LocationStore = defaultLocationStore,
+  options: LocationFetchOptions = {}
+): void => {
+  taskStore = store;
+  taskFetchOptions = options;
+  if (TaskManager.isTaskDefined(BACKGROUND_LOCATION_TASK)) return;
+
+  TaskManager.defineTask<BackgroundLocationTaskData>(
+    BACKGROUND_LOCATION_TASK,
+    async ({ data, error }) => {
+      if (error) {
+        if (__DEV__) {
+          console.warn("Background location task failed:", error.message);
+        }
+        return;
+      }
+
+      // Oldest first so the last fix ends up in the store
+      const locations = [...(data?.locations ?? [])].sort(
+        (a, b) => a.timestamp - b.timestamp
+      );
+      for (const location of locations) {
+        await taskStore.receiveLocation(location, taskFetchOptions);
+      }
+    }
+  );
+};
+
+/**
+ * Requests "always" permission and starts delivering updates to the task
+ * @throws LocationError with code PERMISSION_DENIED or PERMISSION_BLOCKED
+ * @throws Error if defineBackgroundLocationTask was not called
+ */
+export const startBackgroundTracking = async (
+  options: BackgroundTrackingOptions = {}
+): Promise<void> => {
+  const {
+    accuracy = Location.LocationAccuracy.Balanced,
+    distanceInterval = BACKGROUND_DISTANCE_INTERVAL,
+    timeInterval = BACKGROUND_TIME_INTERVAL,
+    foregroundService,
+    showsBackgroundLocationIndicator = true,
+    pausesUpdatesAutomatically = false,
+    activityType,
+  } = options;
+
+  if (!TaskManager.isTaskDefined(BACKGROUND_LOCATION_TASK)) {
+    throw new Error(
+      "Background location task is not defined. Call defineBackgroundLocationTask in the global scope."
+    );
+  }
+
+  // Background permission can only be requested once foreground is granted
+  await ensureForegroundPermission(true, taskStore.source);
+
+  const response = await Location.requestBackgroundPermissionsAsync();
+  if (response.status !== "granted") {
+    throw new LocationError(
+      response.canAskAgain ? "PERMISSION_DENIED" : "PERMISSION_BLOCKED"
+    );
+  }
+
+  await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK, {
+    accuracy,
+    distanceInterval,
+    timeInterval,
+    foregroundService,
+    showsBackgroundLocationIndicator,
+    pausesUpdatesAutomatically,
+    activityType,
+  });
+};
+
+/**
+ * Stops background updates (no-op if tracking is not running)
+ */
+export const stopBackgroundTracking = async (): Promise<void> => {
+  const isTracking = await Location.hasStartedLocationUpdatesAsync(
+    BACKGROUND_LOCATION_TASK
+  ).catch(() => false);
+  if (!isTracking) return;
+
+  await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+};
+
+/**
+ * Reads whether background tracking is running and allowed
+ */
+export const getBackgroundTrackingStatus =
+  async (): Promise<BackgroundTrackingStatus> => {
+    const [isTracking, permission, isAvailable] = await Promise.all([
+      Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK).catch(
+        () => false
+      ),
+      Location.getBackgroundPermissionsAsync()
+        .then((response) => response.status)
+        .catch(() => Location.PermissionStatus.UNDETERMINED),
+      Location.isBackgroundLocationAvailableAsync().catch(() => false),
+    ]);
+
+    return {
+      isTaskDefined: TaskManager.isTaskDefined(BACKGROUND_LOCATION_TASK),
+      isTracking,
+      permission,
+      isAvailable,
+    };
+  };
@@ -0,0 +1,414 @@
+/**
+ * Compact dataset of populated places for offline reverse geocoding
+ * Each entry is [city, region, isoCountryCode, latitude, longitude]
+ * Covers capitals and major cities; resolution is city-level only
+ */
+export type PlaceRecord = [
+  city: string,
+  region: string,
+  isoCountryCode: string,
+  latitude: number,
+  longitude: number,
+];
+
+/**
+ * Localized (English) country names keyed by ISO 3166-1 alpha-2 code
+ */
+export const COUNTRY_NAMES: Record<string, string> = {
+  AE: "United Arab Emirates",
+  AR: "Argentina",
+  AT: "Austria",
+  AU: "Australia",
+  BD: "Bangladesh",
+  BE: "Belgium",
+  BO: "Bolivia",
+  BR: "Brazil",
+  CA: "Canada",
+  CH: "Switzerland",
+  CL: "Chile",
+  CN: "China",
+  CO: "Colombia",
+  CR: "Costa Rica",
+  CU: "Cuba",
+  CZ: "Czechia",
+  DE: "Germany",
+  DK: "Denmark",
+  DZ: "Algeria",
+  EC: "Ecuador",
+  EG: "Egypt",
+  ES: "Spain",
+  ET: "Ethiopia",
+  FI: "Finland",
+  FR: "France",
+  GB: "United Kingdom",
+  GH: "Ghana",
+  GR: "Greece",
+  GT: "Guatemala",
+  HU: "Hungary",
+  ID: "Indonesia",
+  IE: "Ireland",
+  IL: "Israel",
+  IN: "India",
+  IQ: "Iraq",
+  IR: "Iran",
+  IS: "Iceland",
+  IT: "Italy",
+  JP: "Japan",
+  KE: "Kenya",
+  KR: "South Korea",
+  KZ: "Kazakhstan",
+  MA: "Morocco",
+  MX: "Mexico",
+  MY: "Malaysia",
+  NG: "Nigeria",
+  NL: "Netherlands",
+  NO: "Norway",
+  NZ: "New Zealand",
+  PA: "Panama",
+  PE: "Peru",
+  PH: "Philippines",
+  PK: "Pakistan",
+  PL: "Poland",
+  PT: "Portugal",
+  PY: "Paraguay",
+  RO: "Romania",
+  RU: "Russia",
+  SA: "Saudi Arabia",
+  SE: "Sweden",
+  SG: "Singapore",
+  TH: "Thailand",
+  TR: "Türkiye",
+  TZ: "Tanzania",
+  UA: "Ukraine",
+  US: "United States",
+  UY: "Uruguay",
+  VE: "Venezuela",
+  VN: "Vietnam",
+  ZA: "South Africa",
+};
+
+export const PLACES: PlaceRecord[] = [
+  // Brazil
+  ["São Paulo", "São Paulo", "BR", -23.5505, -46.6333],
+  ["Campinas", "São Paulo", "BR", -22.9056, -47.0608],
+  ["Santos", "São Paulo", "BR", -23.9608, -46.3336],
+  ["Ribeirão Preto", "São Paulo", "BR", -21.1775, -47.8103],
+  ["São José dos Campos", "São Paulo", "BR", -23.1791, -45.8872],
+  ["Sorocaba", "São Paulo", "BR", -23.5015, -47.4526],
+  ["Bauru", "São Paulo", "BR", -22.3246, -49.0871],
+  ["São José do Rio Preto", "São Paulo", "BR", -20.8113, -49.3758],
+  ["Presidente Prudente", "São Paulo", "BR", -22.1256, -51.3889],
+  ["Rio de Janeiro", "Rio de Janeiro", "BR", -22.9068, -43.1729],
+  ["Niterói", "Rio de Janeiro", "BR", -22.8832, -43.1034],
+  ["Petrópolis", "Rio de Janeiro", "BR", -22.5112, -43.1779],
+  ["Campos dos Goytacazes", "Rio de Janeiro", "BR", -21.7545, -41.3244],
+  ["Belo Horizonte", "Minas Gerais", "BR", -19.9167, -43.9345],
+  ["Uberlândia", "Minas Gerais", "BR", -18.9186, -48.2772],
+  ["Juiz de Fora", "Minas Gerais", "BR", -21.7642, -43.3496],
+  ["Montes Claros", "Minas Gerais", "BR", -16.7282, -43.8578],
+  ["Vitória", "Espírito Santo", "BR", -20.3155, -40.3128],
+  ["Curitiba", "Paraná", "BR", -25.4284, -49.2733],
+  ["Londrina", "Paraná", "BR", -23.3045, -51.1696],
+  ["Maringá", "Paraná", "BR", -23.4205, -51.9333],
+  ["Cascavel", "Paraná", "BR", -24.9555, -53.4552],
+  ["Foz do Iguaçu", "Paraná", "BR", -25.5478, -54.5882],
+  ["Florianópolis", "Santa Catarina", "BR", -27.5954, -48.548],
+  ["Joinville", "Santa Catarina", "BR", -26.3045, -48.8487],
+  ["Blumenau", "Santa Catarina", "BR", -26.9194, -49.0661],
+  ["Chapecó", "Santa Catarina", "BR", -27.1004, -52.6152],
+  ["Porto Alegre", "Rio Grande do Sul", "BR", -30.0346, -51.2177],
+  ["Caxias do Sul", "Rio Grande do Sul", "BR", -29.1678, -51.1794],
+  ["Pelotas", "Rio Grande do Sul", "BR", -31.7654, -52.3376],
+  ["Santa Maria", "Rio Grande do Sul", "BR", -29.6842, -53.8069],
+  ["Brasília", "Distrito Federal", "BR", -15.7939, -47.8828],
+  ["Goiânia", "Goiás", "BR", -16.6869, -49.2648],
+  ["Campo Grande", "Mato Grosso do Sul", "BR", -20.4697, -54.6201],
+  ["Cuiabá", "Mato Grosso", "BR", -15.601, -56.0974],
+  ["Salvador", "Bahia", "BR", -12.9777, -38.5016],
+  ["Feira de Santana", "Bahia", "BR", -12.2664, -38.9663],
+  ["Vitória da Conquista", "Bahia", "BR", -14.8615, -40.8442],
+  ["Aracaju", "Sergipe", "BR", -10.9472, -37.0731],
+  ["Maceió", "Alagoas", "BR", -9.6498, -35.7089],
+  ["Recife", "Pernambuco", "BR", -8.0476, -34.877],
+  ["Petrolina", "Pernambuco", "BR", -9.3891, -40.5027],
+  ["João Pessoa", "Paraíba", "BR", -7.1195, -34.845],
+  ["Campina Grande", "Paraíba", "BR", -7.2307, -35.8817],
+  ["Natal", "Rio Grande do Norte", "BR", -5.7945, -35.211],
+  ["Fortaleza", "Ceará", "BR", -3.7319, -38.5267],
+  ["Teresina", "Piauí", "BR", -5.0892, -42.8019],
+  ["São Luís", "Maranhão", "BR", -2.5307, -44.3068],
+  ["Imperatriz", "Maranhão", "BR", -5.5264, -47.4919],
+  ["Belém", "Pará", "BR", -1.4558, -48.4902],
+  ["Santarém", "Pará", "BR", -2.443, -54.7083],
+  ["Marabá", "Pará", "BR", -5.3686, -49.1179],
+  ["Macapá", "Amapá", "BR", 0.0349, -51.0694],
+  ["Manaus", "Amazonas", "BR", -3.119, -60.0217],
+  ["Boa Vista", "Roraima", "BR", 2.8235, -60.6758],
+  ["Porto Velho", "Rondônia", "BR", -8.7612, -63.9004],
+  ["Rio Branco", "Acre", "BR", -9.9747, -67.8076],
+  ["Palmas", "Tocantins", "BR", -10.184, -48.3336],
+  // South America
+  ["Buenos Aires", "Buenos Aires", "AR", -34.6037, -58.3816],
+  ["Córdoba", "Córdoba", "AR", -31.4201, -64.1888],
+  ["Rosario", "Santa Fe", "AR", -32.9442, -60.6505],
+  ["Mendoza", "Mendoza", "AR", -32.8895, -68.8458],
+  ["Ushuaia", "Tierra del Fuego", "AR", -54.8019, -68.303],
+  ["Montevideo", "Montevideo", "UY", -34.9011, -56.1645],
+  ["Asunción", "Asunción", "PY", -25.2637, -57.5759],
+  ["Santiago", "Santiago Metropolitan", "CL", -33.4489, -70.6693],
+  ["Antofagasta", "Antofagasta", "CL", -23.6509, -70.3975],
+  ["Punta Arenas", "Magallanes", "CL", -53.1638, -70.9171],
+  ["La Paz", "La Paz", "BO", -16.4897, -68.1193],
+  ["Santa Cruz de la Sierra", "Santa Cruz", "BO", -17.8146, -63.1561],
+  ["Lima", "Lima", "PE", -12.0464, -77.0428],
+  ["Cusco", "Cusco", "PE", -13.532, -71.9675],
+  ["Arequipa", "Arequipa", "PE", -16.409, -71.5375],
+  ["Quito", "Pichincha", "EC", -0.1807, -78.4678],
+  ["Guayaquil", "Guayas", "EC", -2.1709, -79.9224],
+  ["Bogotá", "Bogotá", "CO", 4.711, -74.0721],
+  ["Medellín", "Antioquia", "CO", 6.2442, -75.5812],
+  ["Cali", "Valle del Cauca", "CO", 3.4516, -76.532],
+  ["Barranquilla", "Atlántico", "CO", 10.9685, -74.7813],
+  ["Caracas", "Capital District", "VE", 10.4806, -66.9036],
+  ["Maracaibo", "Zulia", "VE", 10.6427, -71.6125],
+  // Central America and Caribbean
+  ["Panama City", "Panamá", "PA", 8.9824, -79.5199],
+  ["San José", "San José", "CR", 9.9281, -84.0907],
+  ["Guatemala City", "Guatemala", "GT", 14.6349, -90.5069],
+  ["Havana", "La Habana", "CU", 23.1136, -82.3666],
+  // Mexico
+  ["Mexico City", "Ciudad de México", "MX", 19.4326, -99.1332],
+  ["Guadalajara", "Jalisco", "MX", 20.6597, -103.3496],
+  ["Monterrey", "Nuevo León", "MX", 25.6866, -100.3161],
+  ["Puebla", "Puebla", "MX", 19.0414, -98.2063],
+  ["Tijuana", "Baja California", "MX", 32.5149, -117.0382],
+  ["Mérida", "Yucatán", "MX", 20.9674, -89.5926],
+  ["Cancún", "Quintana Roo", "MX", 21.1619, -86.8515],
+  // United States
+  ["New York", "New York", "US", 40.7128, -74.006],
+  ["Buffalo", "New York", "US", 42.8864, -78.8784],
+  ["Boston", "Massachusetts", "US", 42.3601, -71.0589],
+  ["Philadelphia", "Pennsylvania", "US", 39.9526, -75.1652],
+  ["Pittsburgh", "Pennsylvania", "US", 40.4406, -79.9959],
+  ["Washington", "District of Columbia", "US", 38.9072, -77.0369],
+  ["Baltimore", "Maryland", "US", 39.2904, -76.6122],
+  ["Charlotte", "North Carolina", "US", 35.2271, -80.8431],
+  ["Atlanta", "Georgia", "US", 33.749, -84.388],
+  ["Miami", "Florida", "US", 25.7617, -80.1918],
+  ["Orlando", "Florida", "US", 28.5383, -81.3792],
+  ["Tampa", "Florida", "US", 27.9506, -82.4572],
+  ["Jacksonville", "Florida", "US", 30.3322, -81.6557],
+  ["Nashville", "Tennessee", "US", 36.1627, -86.7816],
+  ["Memphis", "Tennessee", "US", 35.1495, -90.049],
+  ["New Orleans", "Louisiana", "US", 29.9511, -90.0715],
+  ["Detroit", "Michigan", "US", 42.3314, -83.0458],
+  ["Cleveland", "Ohio", "US", 41.4993, -81.6944],
+  ["Columbus", "Ohio", "US", 39.9612, -82.9988],
+  ["Indianapolis", "Indiana", "US", 39.7684, -86.1581],
+  ["Chicago", "Illinois", "US", 41.8781, -87.6298],
+  ["Milwaukee", "Wisconsin", "US", 43.0389, -87.9065],
+  ["Minneapolis", "Minnesota", "US", 44.9778, -93.265],
+  ["St. Louis", "Missouri", "US", 38.627, -90.1994],
+  ["Kansas City", "Missouri", "US", 39.0997, -94.5786],
+  ["Omaha", "Nebraska", "US", 41.2565, -95.9345],
+  ["Dallas", "Texas", "US", 32.7767, -96.797],
+  ["Houston", "Texas", "US", 29.7604, -95.3698],
+  ["Austin", "Texas", "US", 30.2672, -97.7431],
+  ["San Antonio", "Texas", "US", 29.4241, -98.4936],
+  ["El Paso", "Texas", "US", 31.7619, -106.485],
+  ["Oklahoma City", "Oklahoma", "US", 35.4676, -97.5164],
+  ["Denver", "Colorado", "US", 39.7392, -104.9903],
+  ["Albuquerque", "New Mexico", "US", 35.0844, -106.6504],
+  ["Phoenix", "Arizona", "US", 33.4484, -112.074],
+  ["Salt Lake City", "Utah", "US", 40.7608, -111.891],
+  ["Las Vegas", "Nevada", "US", 36.1699, -115.1398],
+  ["Los Angeles", "California", "US", 34.0522, -118.2437],
+  ["San Diego", "California", "US", 32.7157, -117.1611],
+  ["San Francisco", "California", "US", 37.7749, -122.4194],
+  ["San Jose", "California", "US", 37.3382, -121.8863],
+  ["Sacramento", "California", "US", 38.5816, -121.4944],
+  ["Portland", "Oregon", "US", 45.5152, -122.6784],
+  ["Seattle", "Washington", "US", 47.6062, -122.3321],
+  ["Boise", "Idaho", "US", 43.615, -116.2023],
+  ["Billings", "Montana", "US", 45.7833, -108.5007],
+  ["Anchorage", "Alaska", "US", 61.2181, -149.9003],
+  ["Fairbanks", "Alaska", "US", 64.8378, -147.7164],
+  ["Honolulu", "Hawaii", "US", 21.3069, -157.8583],
+  // Canada
+  ["Toronto", "Ontario", "CA", 43.6532, -79.3832],
+  ["Ottawa", "Ontario", "CA", 45.4215, -75.6972],
+  ["Montreal", "Quebec", "CA", 45.5017, -73.5673],
+  ["Quebec City", "Quebec", "CA", 46.8139, -71.208],
+  ["Halifax", "Nova Scotia", "CA", 44.6488, -63.5752],
+  ["St. John's", "Newfoundland and Labrador", "CA", 47.5615, -52.7126],
+  ["Winnipeg", "Manitoba", "CA", 49.8951, -97.1384],
+  ["Regina", "Saskatchewan", "CA", 50.4452, -104.6189],
+  ["Calgary", "Alberta", "CA", 51.0447, -114.0719],
+  ["Edmonton", "Alberta", "CA", 53.5461, -113.4938],
+  ["Vancouver", "British Columbia", "CA", 49.2827, -123.1207],
+  ["Whitehorse", "Yukon", "CA", 60.7212, -135.0568],
+  // Europe
+  ["Lisbon", "Lisbon", "PT", 38.7223, -9.1393],
+  ["Porto", "Porto", "PT", 41.1579, -8.6291],
+  ["Madrid", "Community of Madrid", "ES", 40.4168, -3.7038],
+  ["Barcelona", "Catalonia", "ES", 41.3874, 2.1686],
+  ["Valencia", "Valencian Community", "ES", 39.4699, -0.3763],
+  ["Seville", "Andalusia", "ES", 37.3891, -5.9845],
+  ["Bilbao", "Basque Country", "ES", 43.263, -2.935],
+  ["Paris", "Île-de-France", "FR", 48.8566, 2.3522],
+  ["Lyon", "Auvergne-Rhône-Alpes", "FR", 45.764, 4.8357],
+  ["Marseille", "Provence-Alpes-Côte d'Azur", "FR", 43.2965, 5.3698],
+  ["Toulouse", "Occitanie", "FR", 43.6047, 1.4442],
+  ["Bordeaux", "Nouvelle-Aquitaine", "FR", 44.8378, -0.5792],
+  ["Lille", "Hauts-de-France", "FR", 50.6292, 3.0573],
+  ["Nantes", "Pays de la Loire", "FR", 47.2184, -1.5536],
+  ["Strasbourg", "Grand Est", "FR", 48.5734, 7.7521],
+  ["London", "England", "GB", 51.5074, -0.1278],
+  ["Birmingham", "England", "GB", 52.4862, -1.8904],
+  ["Manchester", "England", "GB", 53.4808, -2.2426],
+  ["Newcastle upon Tyne", "England", "GB", 54.9783, -1.6178],
+  ["Bristol", "England", "GB", 51.4545, -2.5879],
+  ["Edinburgh", "Scotland", "GB", 55.9533, -3.1883],
+  ["Glasgow", "Scotland", "GB", 55.8642, -4.2518],
+  ["Cardiff", "Wales", "GB", 51.4816, -3.1791],
+  ["Belfast", "Northern Ireland", "GB", 54.5973, -5.9301],
+  ["Dublin", "Leinster", "IE", 53.3498, -6.2603],
+  ["Cork", "Munster", "IE", 51.8985, -8.4756],
+  ["Amsterdam", "North Holland", "NL", 52.3676, 4.9041],
+  ["Rotterdam", "South Holland", "NL", 51.9244, 4.4777],
+  ["Brussels", "Brussels-Capital", "BE", 50.8503, 4.3517],
+  ["Antwerp", "Flanders", "BE", 51.2194, 4.4025],
+  ["Berlin", "Berlin", "DE", 52.52, 13.405],
+  ["Hamburg", "Hamburg", "DE", 53.5511, 9.9937],
+  ["Munich", "Bavaria", "DE", 48.1351, 11.582],
+  ["Cologne", "North Rhine-Westphalia", "DE", 50.9375, 6.9603],
+  ["Frankfurt", "Hesse", "DE", 50.1109, 8.6821],
+  ["Stuttgart", "Baden-Württemberg", "DE", 48.7758, 9.1829],
+  ["Leipzig", "Saxony", "DE", 51.3397, 12.3731],
+  ["Zurich", "Zurich", "CH", 47.3769, 8.5417],
+  ["Geneva", "Geneva", "CH", 46.2044, 6.1432],
+  ["Vienna", "Vienna", "AT", 48.2082, 16.3738],
+  ["Rome", "Lazio", "IT", 41.9028, 12.4964],
+  ["Milan", "Lombardy", "IT", 45.4642, 9.19],
+  ["Naples", "Campania", "IT", 40.8518, 14.2681],
+  ["Turin", "Piedmont", "IT", 45.0703, 7.6869],
+  ["Florence", "Tuscany", "IT", 43.7696, 11.2558],
+  ["Palermo", "Sicily", "IT", 38.1157, 13.3615],
+  ["Copenhagen", "Capital Region", "DK", 55.6761, 12.5683],
+  ["Oslo", "Oslo", "NO", 59.9139, 10.7522],
+  ["Bergen", "Vestland", "NO", 60.3913, 5.3221],
+  ["Tromsø", "Troms", "NO", 69.6492, 18.9553],
+  ["Stockholm", "Stockholm", "SE", 59.3293, 18.0686],
+  ["Gothenburg", "Västra Götaland", "SE", 57.7089, 11.9746],
+  ["Helsinki", "Uusimaa", "FI", 60.1699, 24.9384],
+  ["Reykjavík", "Capital Region", "IS", 64.1466, -21.9426],
+  ["Warsaw", "Masovia", "PL", 52.2297, 21.0122],
+  ["Kraków", "Lesser Poland", "PL", 50.0647, 19.945],
+  ["Prague", "Prague", "CZ", 50.0755, 14.4378],
+  ["Budapest", "Budapest", "HU", 47.4979, 19.0402],
+  ["Bucharest", "Bucharest", "RO", 44.4268, 26.1025],
+  ["Athens", "Attica", "GR", 37.9838, 23.7275],
+  ["Thessaloniki", "Central Macedonia", "GR", 40.6401, 22.9444],
+  ["Kyiv", "Kyiv", "UA", 50.4501, 30.5234],
+  ["Odesa", "Odesa Oblast", "UA", 46.4825, 30.7233],
+  ["Istanbul", "Istanbul", "TR", 41.0082, 28.9784],
+  ["Ankara", "Ankara", "TR", 39.9334, 32.8597],
+  ["Izmir", "Izmir", "TR", 38.4237, 27.1428],
+  // Russia and Central Asia
+  ["Moscow", "Moscow", "RU", 55.7558, 37.6173],
+  ["Saint Petersburg", "Saint Petersburg", "RU", 59.9311, 30.3609],
+  ["Kazan", "Tatarstan", "RU", 55.7887, 49.1221],
+  ["Yekaterinburg", "Sverdlovsk Oblast", "RU", 56.8389, 60.6057],
+  ["Novosibirsk", "Novosibirsk Oblast", "RU", 55.0084, 82.9357],
+  ["Irkutsk", "Irkutsk Oblast", "RU", 52.2869, 104.305],
+  ["Vladivostok", "Primorsky Krai", "RU", 43.1198, 131.8869],
+  ["Almaty", "Almaty", "KZ", 43.222, 76.8512],
+  ["Astana", "Astana", "KZ", 51.1694, 71.4491],
+  // Middle East
+  ["Tel Aviv", "Tel Aviv District", "IL", 32.0853, 34.7818],
+  ["Jerusalem", "Jerusalem District", "IL", 31.7683, 35.2137],
+  ["Riyadh", "Riyadh Province", "SA", 24.7136, 46.6753],
+  ["Jeddah", "Makkah Province", "SA", 21.4858, 39.1925],
+  ["Dubai", "Dubai", "AE", 25.2048, 55.2708],
+  ["Abu Dhabi", "Abu Dhabi", "AE", 24.4539, 54.3773],
+  ["Baghdad", "Baghdad", "IQ", 33.3152, 44.3661],
+  ["Tehran", "Tehran Province", "IR", 35.6892, 51.389],
+  ["Mashhad", "Razavi Khorasan", "IR", 36.2605, 59.6168],
+  // Africa
+  ["Cairo", "Cairo", "EG", 30.0444, 31.2357],
+  ["Alexandria", "Alexandria", "EG", 31.2001, 29.9187],
+  ["Casablanca", "Casablanca-Settat", "MA", 33.5731, -7.5898],
+  ["Marrakesh", "Marrakesh-Safi", "MA", 31.6295, -7.9811],
+  ["Algiers", "Algiers", "DZ", 36.7538, 3.0588],
+  ["Lagos", "Lagos", "NG", 6.5244, 3.3792],
+  ["Abuja", "Federal Capital Territory", "NG", 9.0765, 7.3986],
+  ["Kano", "Kano", "NG", 12.0022, 8.592],
+  ["Accra", "Greater Accra", "GH", 5.6037, -0.187],
+  ["Addis Ababa", "Addis Ababa", "ET", 8.9806, 38.7578],
+  ["Nairobi", "Nairobi", "KE", -1.2921, 36.8219],
+  ["Mombasa", "Mombasa", "KE", -4.0435, 39.6682],
+  ["Dar es Salaam", "Dar es Salaam", "TZ", -6.7924, 39.2083],
+  ["Johannesburg", "Gauteng", "ZA", -26.2041, 28.0473],
+  ["Pretoria", "Gauteng", "ZA", -25.7479, 28.2293],
+  ["Cape Town", "Western Cape", "ZA", -33.9249, 18.4241],
+  ["Durban", "KwaZulu-Natal", "ZA", -29.8587, 31.0218],
+  // South Asia
+  ["Karachi", "Sindh", "PK", 24.8607, 67.0011],
+  ["Lahore", "Punjab", "PK", 31.5204, 74.3587],
+  ["Islamabad", "Islamabad Capital Territory", "PK", 33.6844, 73.0479],
+  ["New Delhi", "Delhi", "IN", 28.6139, 77.209],
+  ["Mumbai", "Maharashtra", "IN", 19.076, 72.8777],
+  ["Pune", "Maharashtra", "IN", 18.5204, 73.8567],
+  ["Bengaluru", "Karnataka", "IN", 12.9716, 77.5946],
+  ["Chennai", "Tamil Nadu", "IN", 13.0827, 80.2707],
+  ["Hyderabad", "Telangana", "IN", 17.385, 78.4867],
+  ["Kolkata", "West Bengal", "IN", 22.5726, 88.3639],
+  ["Ahmedabad", "Gujarat", "IN", 23.0225, 72.5714],
+  ["Jaipur", "Rajasthan", "IN", 26.9124, 75.7873],
+  ["Lucknow", "Uttar Pradesh", "IN", 26.8467, 80.9462],
+  ["Dhaka", "Dhaka Division", "BD", 23.8103, 90.4125],
+  // East Asia
+  ["Beijing", "Beijing", "CN", 39.9042, 116.4074],
+  ["Shanghai", "Shanghai", "CN", 31.2304, 121.4737],
+  ["Guangzhou", "Guangdong", "CN", 23.1291, 113.2644],
+  ["Shenzhen", "Guangdong", "CN", 22.5431, 114.0579],
+  ["Chengdu", "Sichuan", "CN", 30.5728, 104.0668],
+  ["Chongqing", "Chongqing", "CN", 29.563, 106.5516],
+  ["Wuhan", "Hubei", "CN", 30.5928, 114.3055],
+  ["Xi'an", "Shaanxi", "CN", 34.3416, 108.9398],
+  ["Harbin", "Heilongjiang", "CN", 45.8038, 126.535],
+  ["Ürümqi", "Xinjiang", "CN", 43.8256, 87.6168],
+  ["Lhasa", "Tibet", "CN", 29.652, 91.1721],
+  ["Seoul", "Seoul", "KR", 37.5665, 126.978],
+  ["Busan", "Busan", "KR", 35.1796, 129.0756],
+  ["Tokyo", "Tokyo", "JP", 35.6762, 139.6503],
+  ["Osaka", "Osaka", "JP", 34.6937, 135.5023],
+  ["Nagoya", "Aichi", "JP", 35.1815, 136.9066],
+  ["Fukuoka", "Fukuoka", "JP", 33.5904, 130.4017],
+  ["Sapporo", "Hokkaido", "JP", 43.0618, 141.3545],
+  // Southeast Asia
+  ["Bangkok", "Bangkok", "TH", 13.7563, 100.5018],
+  ["Chiang Mai", "Chiang Mai", "TH", 18.7883, 98.9853],
+  ["Hanoi", "Hanoi", "VN", 21.0278, 105.8342],
+  ["Ho Chi Minh City", "Ho Chi Minh City", "VN", 10.8231, 106.6297],
+  ["Kuala Lumpur", "Kuala Lumpur", "MY", 3.139, 101.6869],
+  ["Singapore", "Singapore", "SG", 1.3521, 103.8198],
+  ["Jakarta", "Jakarta", "ID", -6.2088, 106.8456],
+  ["Surabaya", "East Java", "ID", -7.2575, 112.7521],
+  ["Denpasar", "Bali", "ID", -8.6705, 115.2126],
+  ["Manila", "Metro Manila", "PH", 14.5995, 120.9842],
+  ["Cebu City", "Central Visayas", "PH", 10.3157, 123.8854],
+  // Oceania
+  ["Sydney", "New South Wales", "AU", -33.8688, 151.2093],
+  ["Melbourne", "Victoria", "AU", -37.8136, 144.9631],
+  ["Brisbane", "Queensland", "AU", -27.4698, 153.0251],
+  ["Cairns", "Queensland", "AU", -16.9186, 145.7781],
+  ["Perth", "Western Australia", "AU", -31.9505, 115.8605],
+  ["Adelaide", "South Australia", "AU", -34.9285, 138.6007],
+  ["Canberra", "Australian Capital Territory", "AU", -35.2809, 149.13],
+  ["Darwin", "Northern Territory", "AU", -12.4634, 130.8456],
+  ["Hobart", "Tasmania", "AU", -42.8821, 147.3272],
+  ["Auckland", "Auckland", "NZ", -36.8485, 174.7633],
+  ["Wellington", "Wellington", "NZ", -41.2866, 174.7756],
+  ["Christchurch", "Canterbury", "NZ", -43.5321, 172.6362],
+];
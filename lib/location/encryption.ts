@@ -0,0 +1,214 @@
+/**
+ * Supplies the raw key used to encrypt persisted location data
+ * Typically backed by a platform secure store (Keychain / Keystore)
+ */
+export type EncryptionKeyProvider = {
+  /** Returns a 256-bit key */
+  getKey: () => Promise<Uint8Array>;
+};
+
+/**
+ * Encrypts and decrypts persisted payloads
+ * decrypt must throw if the payload cannot be authenticated
+ */
+export type LocationCipher = {
+  encrypt: (plaintext: string) => Promise<string>;
+  decrypt: (payload: string) => Promise<string>;
+};
+
+/**
+ * Minimal secure store shape (compatible with expo-secure-store)
+ */
+export type SecureKeyStore = {
+  getItemAsync: (key: string) => Promise<string | null>;
+  setItemAsync: (key: string, value: string) => Promise<void>;
+};
+
+/**
+ * Prefix that marks a stored value as encrypted
+ */
+export const ENCRYPTED_PAYLOAD_PREFIX = "enc:v1:";
+
+const KEY_LENGTH_BYTES = 32; // AES-256
+const IV_LENGTH_BYTES = 12; // Recommended nonce size for AES-GCM
+const DEFAULT_KEY_NAME = "expo-location-hook.encryption-key";
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Returns WebCrypto if the runtime provides it (web, or native with a polyfill)
+ */
+const getSubtleCrypto = (): SubtleCrypto => {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error(
+      "WebCrypto is not available. Install a crypto polyfill to enable encryption."
+    );
+  }
+  return subtle;
+};
+
+/**
+ * Creates an AES-256-GCM cipher using WebCrypto
+ * Payload format: `enc:v1:<base64 iv>:<base64 ciphertext + auth tag>`
+ */
+export const createAesGcmCipher = (
+  keyProvider: EncryptionKeyProvider
+): LocationCipher => {
+  let cryptoKeyPromise: Promise<CryptoKey> | null = null;
+
+  const getCryptoKey = (): Promise<CryptoKey> => {
+    if (!cryptoKeyPromise) {
+      cryptoKeyPromise = keyProvider
+        .getKey()
+        .then((rawKey) =>
+          getSubtleCrypto().importKey(
+            "raw",
+            rawKey as BufferSource,
+            "AES-GCM",
+            false,
+            ["encrypt", "decrypt"]
+          )
+        );
+      // Allow a retry if the key could not be loaded
+      cryptoKeyPromise.catch(() => {
+        cryptoKeyPromise = null;
+      });
+    }
+    return cryptoKeyPromise;
+  };
+
+  return {
+    encrypt: async (plaintext) => {
+      const key = await getCryptoKey();
+      const iv = globalThis.crypto.getRandomValues(
+        new Uint8Array(IV_LENGTH_BYTES)
+      );
+      const ciphertext = await getSubtleCrypto().encrypt(
+        { name: "AES-GCM", iv },
+        key,
+        new TextEncoder().encode(plaintext)
+      );
+      return `${ENCRYPTED_PAYLOAD_PREFIX}${toBase64(iv)}:${toBase64(
+        new Uint8Array(ciphertext)
+      )}`;
+    },
+    decrypt: async (payload) => {
+      if (!payload.startsWith(ENCRYPTED_PAYLOAD_PREFIX)) {
+        throw new Error("Payload is not encrypted");
+      }
+      const [iv, ciphertext] = payload
+        .slice(ENCRYPTED_PAYLOAD_PREFIX.length)
+        .split(":");
+      if (!iv || !ciphertext) {
+        throw new Error("Malformed encrypted payload");
+      }
+
+      const key = await getCryptoKey();
+      const plaintext = await getSubtleCrypto().decrypt(
+        { name: "AES-GCM", iv: fromBase64(iv) as BufferSource },
+        key,
+        fromBase64(ciphertext) as BufferSource
+      );
+      return new TextDecoder().decode(plaintext);
+    },
+  };
+};
+
+/**
+ * Key provider that keeps a random key in a secure store, creating it on first use
+ *
+ * @example
+ * ```ts
+ * import * as SecureStore from "expo-secure-store";
+ *
+ * setLocationEncryption(
+ *   createAesGcmCipher(createSecureStoreKeyProvider(SecureStore))
+ * );
+ * ```
+ */
+export const createSecureStoreKeyProvider = (
+  secureStore: SecureKeyStore,
+  keyName = DEFAULT_KEY_NAME
+): EncryptionKeyProvider => {
+  let keyPromise: Promise<Uint8Array> | null = null;
+
+  return {
+    getKey: () => {
+      if (!keyPromise) {
+        keyPromise = (async () => {
+          const stored = await secureStore.getItemAsync(keyName);
+          if (stored) return fromBase64(stored);
+
+          const key = globalThis.crypto.getRandomValues(
+            new Uint8Array(KEY_LENGTH_BYTES)
+          );
+          await secureStore.setItemAsync(keyName, toBase64(key));
+          return key;
+        })();
+        keyPromise.catch(() => {
+          keyPromise = null;
+        });
+      }
+      return keyPromise;
+    },
+  };
+};
+
+/**
+ * Registered cipher, null keeps persisted data as plain JSON
+ */
+let registeredCipher: LocationCipher | null = null;
+
+/**
+ * Enables (or disables with null) encryption of persisted location data
+ * Call once at startup, before the first useLocation mounts
+ */
+export const setLocationEncryption = (cipher: LocationCipher | null): void => {
+  registeredCipher = cipher;
+};
+
+/**
+ * Returns the registered cipher, if any
+ */
+export const getLocationEncryption = (): LocationCipher | null =>
+  registeredCipher;
+
+/**
+ * Encrypts a value for storage when a cipher is registered
+ */
+export const sealStoredValue = async (plaintext: string): Promise<string> =>
+  registeredCipher ? registeredCipher.encrypt(plaintext) : plaintext;
+
+/**
+ * Decrypts a stored value if needed
+ * @returns Plaintext, or null if it is encrypted and cannot be decrypted
+ */
+export const openStoredValue = async (
+  stored: string
+): Promise<string | null> => {
+  if (!stored.startsWith(ENCRYPTED_PAYLOAD_PREFIX)) return stored;
+  if (!registeredCipher) return null;
+
+  try {
+    return await registeredCipher.decrypt(stored);
+  } catch {
+    // Wrong key or tampered payload
+    return null;
+  }
+};
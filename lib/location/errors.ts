@@ -0,0 +1,81 @@
+/**
+ * Machine-readable reasons a location operation can fail
+ */
+export type LocationErrorCode =
+  | "PERMISSION_DENIED" // Permission not granted, but the prompt can be shown again
+  | "PERMISSION_BLOCKED" // Permission not granted and canAskAgain is false
+  | "SERVICES_DISABLED" // Device location services are turned off
+  | "TIMEOUT" // No fix arrived within the allowed time
+  | "NO_FIX" // Services are on but no position could be obtained
+  | "GEOCODE_FAILED" // Coordinates are available but reverse geocoding failed
+  | "UNKNOWN";
+
+/**
+ * Default messages and retry semantics for each error code
+ */
+const LOCATION_ERROR_DETAILS: Record<
+  LocationErrorCode,
+  { message: string; retryable: boolean }
+> = {
+  PERMISSION_DENIED: {
+    message: "Unable to access your location. Check your device settings.",
+    retryable: true,
+  },
+  PERMISSION_BLOCKED: {
+    message:
+      "Location permission is blocked. Enable it in your device settings.",
+    retryable: false,
+  },
+  SERVICES_DISABLED: {
+    message: "Location services are disabled. Turn them on and try again.",
+    retryable: true,
+  },
+  TIMEOUT: {
+    message: "Getting your location took too long. Please try again.",
+    retryable: true,
+  },
+  NO_FIX: {
+    message: "Unable to get location. Please try again.",
+    retryable: true,
+  },
+  GEOCODE_FAILED: {
+    message: "Unable to resolve an address for your location.",
+    retryable: true,
+  },
+  UNKNOWN: {
+    message: "Unable to access your location. Check your device settings.",
+    retryable: true,
+  },
+};
+
+/**
+ * Typed error reported by the location hook
+ * Switch on `code` to tell failures apart; `message` is a default English text
+ */
+export class LocationError extends Error {
+  readonly code: LocationErrorCode;
+  /** Whether trying again (without user action in settings) may succeed */
+  readonly retryable: boolean;
+  /** Underlying error thrown by expo-location, if any */
+  readonly cause: unknown;
+
+  constructor(code: LocationErrorCode, cause?: unknown, message?: string) {
+    const details = LOCATION_ERROR_DETAILS[code];
+    super(message ?? details.message);
+    this.name = "LocationError";
+    this.code = code;
+    this.retryable = details.retryable;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Normalizes any thrown value into a LocationError
+ */
+export const toLocationError = (
+  error: unknown,
+  fallbackCode: LocationErrorCode = "UNKNOWN"
+): LocationError =>
+  error instanceof LocationError
+    ? error
+    : new LocationError(fallbackCode, error);
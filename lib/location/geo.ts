@@ -0,0 +1,112 @@
+/**
+ * Geodesic helpers shared by the location hooks
+ */
+
+/**
+ * Minimal coordinate shape accepted by the helpers
+ * Compatible with Location.LocationObjectCoords
+ */
+export type Coordinates = {
+  latitude: number;
+  longitude: number;
+  /** Radius of uncertainty in meters, if known */
+  accuracy?: number | null;
+};
+
+/**
+ * Mean Earth radius in meters (IUGG)
+ */
+export const EARTH_RADIUS_METERS = 6371008.8;
+
+/**
+ * Converts degrees to radians
+ */
+export const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two coordinates using the haversine formula
+ * @returns Distance in meters
+ */
+export const haversineDistance = (
+  from: Coordinates,
+  to: Coordinates
+): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * Combined uncertainty of two fixes (root-sum-square of their accuracy radii)
+ * Missing accuracy values are treated as 0
+ * @returns Combined error radius in meters
+ */
+export const combinedAccuracy = (a: Coordinates, b: Coordinates): number =>
+  Math.sqrt((a.accuracy ?? 0) ** 2 + (b.accuracy ?? 0) ** 2);
+
+/**
+ * Checks whether moving between two fixes is a real change of position
+ * @param thresholdMeters - Minimum distance in meters to count as a change
+ * @param accuracyAware - Also require the move to exceed the combined error radius
+ */
+export const isSignificantMove = (
+  from: Coordinates,
+  to: Coordinates,
+  thresholdMeters: number,
+  accuracyAware = true
+): boolean => {
+  const distance = haversineDistance(from, to);
+  const minimum = accuracyAware
+    ? Math.max(thresholdMeters, combinedAccuracy(from, to))
+    : thresholdMeters;
+  return distance > minimum;
+};
+
+/**
+ * Eight-point compass direction
+ */
+export type CardinalDirection =
+  "N" | "NE" | "E" | "SE" | "S" | "SW" | "W" | "NW";
+
+const CARDINAL_DIRECTIONS: CardinalDirection[] = [
+  "N",
+  "NE",
+  "E",
+  "SE",
+  "S",
+  "SW",
+  "W",
+  "NW",
+];
+
+/**
+ * Initial bearing (forward azimuth) of the great circle from one coordinate to another
+ * @returns Degrees clockwise from true north in [0, 360)
+ */
+export const initialBearing = (from: Coordinates, to: Coordinates): number => {
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
+/**
+ * Converts a bearing in degrees to the nearest eight-point compass direction
+ */
+export const cardinalDirection = (bearing: number): CardinalDirection => {
+  const normalized = ((bearing % 360) + 360) % 360;
+  return CARDINAL_DIRECTIONS[Math.round(normalized / 45) % 8];
+};
@@ -0,0 +1,90 @@
+import * as Location from "expo-location";
+import type { Coordinates } from "./geo";
+import { offlineGeocoder } from "./offlineGeocoder";
+
+/**
+ * Source of reverse geocoding results
+ * Resolve to null when the provider has no address for the coordinates,
+ * throw when the lookup itself failed
+ */
+export type GeocoderProvider = {
+  /** Identifier used in logs */
+  name: string;
+  reverseGeocode: (
+    coords: Coordinates,
+    signal?: AbortSignal
+  ) => Promise<Location.LocationGeocodedAddress | null>;
+};
+
+/**
+ * Native geocoder exposed by expo-location
+ * Unavailable on web and rate-limited on Android
+ */
+export const platformGeocoder: GeocoderProvider = {
+  name: "platform",
+  reverseGeocode: async (coords) => {
+    const [address] = await Location.reverseGeocodeAsync({
+      latitude: coords.latitude,
+      longitude: coords.longitude,
+    });
+    return address ?? null;
+  },
+};
+
+/**
+ * Combines providers into one that tries each in order
+ * Falls through to the next provider on failure or when no address is found
+ * Throws the last failure only if no provider returned an address and at least one failed
+ *
+ * @example
+ * ```ts
+ * setGeocoderProvider(chainGeocoders(platformGeocoder, httpGeocoder, offlineGeocoder));
+ * ```
+ */
+export const chainGeocoders = (
+  ...providers: GeocoderProvider[]
+): GeocoderProvider => ({
+  name: providers.map((provider) => provider.name).join(" → "),
+  reverseGeocode: async (coords, signal) => {
+    let lastError: unknown = null;
+
+    for (const provider of providers) {
+      if (signal?.aborted) return null;
+
+      try {
+        const address = await provider.reverseGeocode(coords, signal);
+        if (address) return address;
+      } catch (error) {
+        lastError = error;
+        if (__DEV__) {
+          console.warn(`Geocoder "${provider.name}" failed:`, error);
+        }
+      }
+    }
+
+    if (lastError) throw lastError;
+    return null;
+  },
+});
+
+/**
+ * Globally registered provider used when none is passed through options
+ * Falls back to the bundled offline dataset when the platform geocoder fails
+ */
+let defaultGeocoderProvider: GeocoderProvider = chainGeocoders(
+  platformGeocoder,
+  offlineGeocoder
+);
+
+/**
+ * Registers the provider used by every useLocation instance without a `geocoder` option
+ */
+export const setGeocoderProvider = (provider: GeocoderProvider): void => {
+  defaultGeocoderProvider = provider;
+};
+
+/**
+ * Returns the globally registered provider
+ */
+export const getGeocoderProvider = (): GeocoderProvider =>
+  defaultGeocoderProvider;
@@ -0,0 +1,396 @@
+import {
+  EARTH_RADIUS_METERS,
+  haversineDistance,
+  toRadians,
+  type Coordinates,
+} from "./geo";
+
+/**
+ * Configuration constants for geofence evaluation
+ */
+const DWELL_TIME = 60 * 1000; // 1 minute inside before a dwell event
+const HYSTERESIS_ACCURACY_FACTOR = 0.5; // Share of the accuracy radius used as margin
+const MIN_HYSTERESIS = 5; // 5 meters - absorbs jitter of very precise fixes
+const MAX_HYSTERESIS = 100; // 100 meters - keeps regions reachable with poor fixes
+
+type RegionBase = {
+  /** Unique identifier, used to keep state when regions are replaced */
+  id: string;
+  /**
+   * Time in milliseconds inside the region before onDwell fires (0 disables)
+   * @default the monitor's dwellTime
+   */
+  dwellTime?: number;
+};
+
+/**
+ * Circle around a center point
+ */
+export type CircularRegion = RegionBase & {
+  type: "circle";
+  center: Coordinates;
+  /** Radius in meters */
+  radius: number;
+};
+
+/**
+ * Simple (non self-intersecting) polygon, vertices in order
+ * Suited to regions up to a few kilometers across
+ */
+export type PolygonRegion = RegionBase & {
+  type: "polygon";
+  points: Coordinates[];
+};
+
+export type GeofenceRegion = CircularRegion | PolygonRegion;
+
+export type GeofenceStatus = "unknown" | "inside" | "outside";
+
+/**
+ * Per-region state kept across location updates
+ */
+export type GeofenceRegionState = {
+  status: GeofenceStatus;
+  /** Signed distance to the boundary in meters (negative inside), null before the first fix */
+  distance: number | null;
+  /** When the current visit started, null while outside */
+  enteredAt: number | null;
+  /** Whether the dwell event fired for the current visit */
+  dwelling: boolean;
+};
+
+export type GeofenceEventType = "enter" | "exit" | "dwell";
+
+export type GeofenceEvent = {
+  type: GeofenceEventType;
+  region: GeofenceRegion;
+  /** Fix that triggered the event (the latest fix for dwell) */
+  coords: Coordinates;
+  /** Signed distance to the boundary in meters (negative inside) */
+  distance: number;
+  timestamp: number;
+};
+
+/**
+ * Options for a GeofenceMonitor
+ */
+export type GeofenceMonitorOptions = {
+  /**
+   * Default time in milliseconds inside a region before a dwell event (0 disables)
+   * @default 60 * 1000 (1 minute)
+   */
+  dwellTime?: number;
+  /**
+   * Share of the fix accuracy used as hysteresis margin around the boundary
+   * A fix must be this far inside to enter and this far outside to exit
+   * @default 0.5
+   */
+  hysteresisFactor?: number;
+  /**
+   * Minimum hysteresis margin in meters
+   * @default 5
+   */
+  minHysteresis?: number;
+  /**
+   * Maximum hysteresis margin in meters
+   * @default 100
+   */
+  maxHysteresis?: number;
+  /** Called for every enter, exit and dwell */
+  onEvent?: (event: GeofenceEvent) => void;
+  /** Called after any region state changed */
+  onChange?: (states: Record<string, GeofenceRegionState>) => void;
+};
+
+const UNKNOWN_STATE: GeofenceRegionState = {
+  status: "unknown",
+  distance: null,
+  enteredAt: null,
+  dwelling: false,
+};
+
+/**
+ * Projects a coordinate onto a local plane centred on the origin (meters)
+ * Accurate enough for the distances a geofence boundary check needs
+ */
+const toLocalPoint = (
+  origin: Coordinates,
+  point: Coordinates
+): [number, number] => {
+  // Wrap longitude difference into [-180, 180] to handle the antimeridian
+  const dLng = ((point.longitude - origin.longitude + 540) % 360) - 180;
+  const x =
+    toRadians(dLng) *
+    Math.cos(toRadians(origin.latitude)) *
+    EARTH_RADIUS_METERS;
+  const y = toRadians(point.latitude - origin.latitude) * EARTH_RADIUS_METERS;
+  return [x, y];
+};
+
+/**
+ * Distance from the origin to segment ab on the local plane
+ */
+const distanceToSegment = (
+  [ax, ay]: [number, number],
+  [bx, by]: [number, number]
+): number => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+  return Math.hypot(ax + t * dx, ay + t * dy);
+};
+
+/**
+ * Signed distance from a coordinate to a polygon boundary (negative inside)
+ * Uses ray casting for containment
+ */
+const polygonDistance = (
+  coords: Coordinates,
+  points: Coordinates[]
+): number => {
+  if (points.length < 3) return Infinity;
+
+  const local = points.map((point) => toLocalPoint(coords, point));
+  let inside = false;
+  let nearest = Infinity;
+
+  for (let i = 0, j = local.length - 1; i < local.length; j = i++) {
+    const [xi, yi] = local[i];
+    const [xj, yj] = local[j];
+    // Horizontal ray from the origin towards +x
+    if (yi > 0 !== yj > 0 && 0 < ((xj - xi) * -yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+    nearest = Math.min(nearest, distanceToSegment(local[j], local[i]));
+  }
+
+  return inside ? -nearest : nearest;
+};
+
+/**
+ * Signed distance in meters from a coordinate to a region boundary
+ * @returns Negative inside the region, positive outside
+ */
+export const distanceToRegion = (
+  coords: Coordinates,
+  region: GeofenceRegion
+): number =>
+  region.type === "circle"
+    ? haversineDistance(coords, region.center) - region.radius
+    : polygonDistance(coords, region.points);
+
+/**
+ * Tracks enter, exit and dwell transitions for a set of regions
+ * Status only flips once a fix is beyond the boundary by an accuracy-based margin,
+ * so a fix hovering at the edge does not flap between inside and outside
+ *
+ * @example
+ * ```ts
+ * const monitor = new GeofenceMonitor({ onEvent: (event) => log(event.type, event.region.id) });
+ * monitor.setRegions([{ id: "store", type: "circle", center, radius: 150 }]);
+ * monitor.update(coords);
+ * ```
+ */
+export class GeofenceMonitor {
+  private options: GeofenceMonitorOptions;
+  private regions = new Map<string, GeofenceRegion>();
+  private states = new Map<string, GeofenceRegionState>();
+  private dwellTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private lastCoords: Coordinates | null = null;
+  private changed = false;
+
+  constructor(options: GeofenceMonitorOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Replaces the monitored regions
+   * Regions that keep their id keep their state; new ones are evaluated against the last fix
+   */
+  setRegions(regions: GeofenceRegion[]): void {
+    const ids = new Set(regions.map((region) => region.id));
+
+    for (const id of Array.from(this.regions.keys())) {
+      if (!ids.has(id)) {
+        this.clearDwellTimer(id);
+        this.regions.delete(id);
+        this.states.delete(id);
+        this.changed = true;
+      }
+    }
+
+    for (const region of regions) {
+      this.regions.set(region.id, region);
+      if (!this.states.has(region.id)) {
+        this.states.set(region.id, UNKNOWN_STATE);
+        this.changed = true;
+      }
+      if (this.lastCoords) {
+        this.evaluate(region, this.lastCoords, Date.now());
+      }
+    }
+
+    this.flush();
+  }
+
+  /**
+   * Evaluates every region against a new fix
+   */
+  update(coords: Coordinates, timestamp = Date.now()): void {
+    this.lastCoords = coords;
+    this.regions.forEach((region) => this.evaluate(region, coords, timestamp));
+    this.flush();
+  }
+
+  /**
+   * Returns a copy of every region state keyed by region id
+   */
+  getStates(): Record<string, GeofenceRegionState> {
+    return Object.fromEntries(this.states.entries());
+  }
+
+  /**
+   * Cancels pending dwell timers
+   */
+  dispose(): void {
+    this.dwellTimers.forEach((timer) => clearTimeout(timer));
+    this.dwellTimers.clear();
+  }
+
+  /**
+   * Margin a fix must clear beyond the boundary to change status
+   * Capped at half the radius so small circles stay reachable
+   */
+  private hysteresis(coords: Coordinates, region: GeofenceRegion): number {
+    const {
+      hysteresisFactor = HYSTERESIS_ACCURACY_FACTOR,
+      minHysteresis = MIN_HYSTERESIS,
+      maxHysteresis = MAX_HYSTERESIS,
+    } = this.options;
+
+    const margin = Math.min(
+      maxHysteresis,
+      Math.max(minHysteresis, (coords.accuracy ?? 0) * hysteresisFactor)
+    );
+    return region.type === "circle"
+      ? Math.min(margin, region.radius / 2)
+      : margin;
+  }
+
+  private evaluate(
+    region: GeofenceRegion,
+    coords: Coordinates,
+    timestamp: number
+  ): void {
+    const previous = this.states.get(region.id) ?? UNKNOWN_STATE;
+    const distance = distanceToRegion(coords, region);
+    const margin = this.hysteresis(coords, region);
+
+    let status = previous.status;
+    if (status === "unknown") {
+      // First fix decides without hysteresis
+      status = distance <= 0 ? "inside" : "outside";
+    } else if (status === "outside" && distance <= -margin) {
+      status = "inside";
+    } else if (status === "inside" && distance >= margin) {
+      status = "outside";
+    }
+
+    const entered = status === "inside" && previous.status !== "inside";
+    const exited = status === "outside" && previous.status === "inside";
+
+    this.setState(region.id, {
+      status,
+      distance,
+      enteredAt: entered
+        ? timestamp
+        : status === "inside"
+          ? previous.enteredAt
+          : null,
+      dwelling: status === "inside" && !entered && previous.dwelling,
+    });
+
+    if (entered) {
+      this.emit("enter", region, coords, distance, timestamp);
+      this.scheduleDwell(region);
+    } else if (exited) {
+      this.clearDwellTimer(region.id);
+      this.emit("exit", region, coords, distance, timestamp);
+    }
+  }
+
+  private scheduleDwell(region: GeofenceRegion): void {
+    const dwellTime = region.dwellTime ?? this.options.dwellTime ?? DWELL_TIME;
+    this.clearDwellTimer(region.id);
+    if (dwellTime <= 0) return;
+
+    this.dwellTimers.set(
+      region.id,
+      setTimeout(() => {
+        this.dwellTimers.delete(region.id);
+        const state = this.states.get(region.id);
+        if (state?.status !== "inside" || !this.lastCoords) return;
+
+        this.setState(region.id, { ...state, dwelling: true });
+        this.emit(
+          "dwell",
+          region,
+          this.lastCoords,
+          state.distance ?? 0,
+          Date.now()
+        );
+        this.flush();
+      }, dwellTime)
+    );
+  }
+
+  private clearDwellTimer(id: string): void {
+    const timer = this.dwellTimers.get(id);
+    if (timer) clearTimeout(timer);
+    this.dwellTimers.delete(id);
+  }
+
+  private setState(id: string, next: GeofenceRegionState): void {
+    const previous = this.states.get(id);
+    if (
+      previous &&
+      previous.status === next.status &&
+      previous.distance === next.distance &&
+      previous.enteredAt === next.enteredAt &&
+      previous.dwelling === next.dwelling
+    ) {
+      return;
+    }
+    this.states.set(id, next);
+    this.changed = true;
+  }
+
+  private emit(
+    type: GeofenceEventType,
+    region: GeofenceRegion,
+    coords: Coordinates,
+    distance: number,
+    timestamp: number
+  ): void {
+    try {
+      this.options.onEvent?.({ type, region, coords, distance, timestamp });
+    } catch (callbackError) {
+      if (__DEV__) {
+        console.warn(`Geofence ${type} callback failed:`, callbackError);
+      }
+    }
+  }
+
+  /**
+   * Notifies onChange once per batch of state changes
+   */
+  private flush(): void {
+    if (!this.changed) return;
+    this.changed = false;
+    this.options.onChange?.(this.getStates());
+  }
+}
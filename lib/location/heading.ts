@@ -0,0 +1,233 @@
+import type * as Location from "expo-location";
+import { toLocationError, type LocationError } from "./errors";
+import { defaultLocationStore, type LocationStore } from "./locationStore";
+import { ensureForegroundPermission } from "./permission";
+
+/**
+ * Compass reading with both north references
+ */
+export type HeadingReading = {
+  /** Degrees clockwise from true north, null when the device cannot tell */
+  trueHeading: number | null;
+  /** Degrees clockwise from magnetic north */
+  magneticHeading: number;
+  /** True heading when available, otherwise magnetic */
+  heading: number;
+  /** Compass calibration from 0 (none) to 3 (high) */
+  accuracy: number;
+  timestamp: number;
+};
+
+/**
+ * Wraps an angle in degrees into [0, 360)
+ */
+export const normalizeAngle = (angle: number): number =>
+  ((angle % 360) + 360) % 360;
+
+/**
+ * Shortest signed rotation in degrees from one angle to another, in (-180, 180]
+ * Crossing north counts as a small turn (359 → 1 is +2, not -358)
+ */
+export const angleDifference = (from: number, to: number): number => {
+  const difference = normalizeAngle(to - from);
+  return difference > 180 ? difference - 360 : difference;
+};
+
+/**
+ * Moves an angle towards another along the shortest rotation
+ * @param factor - Weight of the new angle, from 0 (keep previous) to 1 (take next)
+ */
+export const smoothAngle = (
+  previous: number,
+  next: number,
+  factor: number
+): number =>
+  normalizeAngle(previous + angleDifference(previous, next) * factor);
+
+/**
+ * Angle to rotate a "points up" arrow so it faces a bearing
+ * Both angles must use the same north (true bearings need the true heading)
+ */
+export const relativeBearing = (bearing: number, heading: number): number =>
+  normalizeAngle(bearing - heading);
+
+/**
+ * Converts an expo-location heading (trueHeading is -1 when unavailable)
+ */
+export const toHeadingReading = (
+  heading: Location.LocationHeadingObject,
+  timestamp: number = Date.now()
+): HeadingReading => {
+  const trueHeading =
+    heading.trueHeading >= 0 ? normalizeAngle(heading.trueHeading) : null;
+  const magneticHeading = normalizeAngle(heading.magHeading);
+  return {
+    trueHeading,
+    magneticHeading,
+    heading: trueHeading ?? magneticHeading,
+    accuracy: heading.accuracy,
+    timestamp,
+  };
+};
+
+/**
+ * Blends a new reading into the previous one, each north reference on its own
+ * A reading that gains or loses the true heading restarts it instead of blending
+ */
+export const smoothHeading = (
+  previous: HeadingReading | null,
+  next: HeadingReading,
+  factor: number
+): HeadingReading => {
+  if (!previous || factor >= 1) return next;
+
+  const trueHeading =
+    previous.trueHeading !== null && next.trueHeading !== null
+      ? smoothAngle(previous.trueHeading, next.trueHeading, factor)
+      : next.trueHeading;
+  const magneticHeading = smoothAngle(
+    previous.magneticHeading,
+    next.magneticHeading,
+    factor
+  );
+  return {
+    ...next,
+    trueHeading,
+    magneticHeading,
+    heading: trueHeading ?? magneticHeading,
+  };
+};
+
+/**
+ * Options for HeadingMonitor.subscribe
+ */
+export type HeadingSubscribeOptions = {
+  /**
+   * Whether starting the compass may show the OS permission prompt
+   * Only the subscriber that starts the compass decides
+   * @default true
+   */
+  requestPermission?: boolean;
+};
+
+/**
+ * One compass subscription shared by every consumer of a store
+ * The compass runs while at least one listener is registered
+ *
+ * @example
+ * ```ts
+ * const monitor = getHeadingMonitor();
+ * const unsubscribe = monitor.subscribe(() => {
+ *   console.log(monitor.getReading()?.heading);
+ * });
+ * ```
+ */
+export class HeadingMonitor {
+  /** Store whose source provides the compass */
+  readonly store: LocationStore;
+  private listeners = new Set<() => void>();
+  private reading: HeadingReading | null = null;
+  private error: LocationError | null = null;
+  private abortController: AbortController | null = null;
+  private subscription: Location.LocationSubscription | null = null;
+
+  constructor(store: LocationStore = defaultLocationStore) {
+    this.store = store;
+  }
+
+  /**
+   * Registers a listener called on every reading or error
+   * The first listener starts the compass and the last one to leave stops it
+   * @returns Function that removes the listener
+   */
+  subscribe = (
+    listener: () => void,
+    options: HeadingSubscribeOptions = {}
+  ): (() => void) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.start(options);
+
+    return () => {
+      if (!this.listeners.delete(listener)) return;
+      if (this.listeners.size === 0) this.stop();
+    };
+  };
+
+  /**
+   * Returns the latest raw reading, null until the compass reports
+   */
+  getReading = (): HeadingReading | null => this.reading;
+
+  /**
+   * Returns why the compass could not start, null otherwise
+   */
+  getError = (): LocationError | null => this.error;
+
+  private start(options: HeadingSubscribeOptions): void {
+    const { requestPermission = true } = options;
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    this.abortController = abortController;
+    this.error = null;
+
+    const startWatching = async () => {
+      try {
+        await ensureForegroundPermission(requestPermission, this.store.source);
+        if (signal.aborted) return;
+
+        const subscription = await this.store.source.watchHeadingAsync(
+          (heading) => {
+            if (signal.aborted) return;
+            this.reading = toHeadingReading(heading);
+            this.notify();
+          }
+        );
+
+        // Stopped while subscribing - remove immediately
+        if (signal.aborted) {
+          subscription.remove();
+          return;
+        }
+        this.subscription = subscription;
+      } catch (watchError) {
+        if (signal.aborted) return;
+        if (__DEV__) {
+          console.warn("Error watching heading:", watchError);
+        }
+        this.error = toLocationError(watchError);
+        this.notify();
+      }
+    };
+
+    void startWatching();
+  }
+
+  private stop(): void {
+    this.abortController?.abort();
+    this.abortController = null;
+    this.subscription?.remove();
+    this.subscription = null;
+    // A reading from before the compass stopped no longer tells where the device points
+    this.reading = null;
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+const monitors = new WeakMap<LocationStore, HeadingMonitor>();
+
+/**
+ * Returns the heading monitor bound to a store, creating it on first use
+ */
+export const getHeadingMonitor = (
+  store: LocationStore = defaultLocationStore
+): HeadingMonitor => {
+  let monitor = monitors.get(store);
+  if (!monitor) {
+    monitor = new HeadingMonitor(store);
+    monitors.set(store, monitor);
+  }
+  return monitor;
+};
@@ -0,0 +1,211 @@
+import type * as Location from "expo-location";
+import { EARTH_RADIUS_METERS, toRadians } from "./geo";
+
+/**
+ * Configuration constants for the smoothing filter
+ */
+const SMOOTHING_ACCELERATION = 2; // 2 m/s² - expected change of velocity (walking to city driving)
+const SMOOTHING_DEFAULT_ACCURACY = 50; // 50 meters - assumed for fixes without accuracy
+const SMOOTHING_INITIAL_SPEED_VARIANCE = 25; // (5 m/s)² - velocity is unknown on the first fix
+const SMOOTHING_RESET_GAP = 60 * 1000; // 1 minute - longer gaps restart from the next fix
+
+/**
+ * Position and velocity along one axis with their covariance
+ * The axes are independent because measurement noise is isotropic
+ */
+type AxisState = {
+  position: number;
+  velocity: number;
+  /** Covariance [[pp, pv], [pv, vv]] */
+  pp: number;
+  pv: number;
+  vv: number;
+};
+
+const createAxis = (position: number, variance: number): AxisState => ({
+  position,
+  velocity: 0,
+  pp: variance,
+  pv: 0,
+  vv: SMOOTHING_INITIAL_SPEED_VARIANCE,
+});
+
+/**
+ * Advances the state by dt seconds under a constant-velocity model
+ * Process noise follows a random acceleration with the given variance
+ */
+const predictAxis = (
+  axis: AxisState,
+  dt: number,
+  accelerationVariance: number
+): AxisState => {
+  const dt2 = dt * dt;
+  return {
+    position: axis.position + axis.velocity * dt,
+    velocity: axis.velocity,
+    pp:
+      axis.pp +
+      2 * dt * axis.pv +
+      dt2 * axis.vv +
+      (accelerationVariance * dt2 * dt2) / 4,
+    pv: axis.pv + dt * axis.vv + (accelerationVariance * dt2 * dt) / 2,
+    vv: axis.vv + accelerationVariance * dt2,
+  };
+};
+
+/**
+ * Corrects the state with a position measurement of the given variance
+ */
+const correctAxis = (
+  axis: AxisState,
+  measurement: number,
+  variance: number
+): AxisState => {
+  const innovation = measurement - axis.position;
+  const gainPosition = axis.pp / (axis.pp + variance);
+  const gainVelocity = axis.pv / (axis.pp + variance);
+
+  return {
+    position: axis.position + gainPosition * innovation,
+    velocity: axis.velocity + gainVelocity * innovation,
+    pp: (1 - gainPosition) * axis.pp,
+    pv: (1 - gainPosition) * axis.pv,
+    vv: axis.vv - gainVelocity * axis.pv,
+  };
+};
+
+/**
+ * Options for LocationKalmanFilter.filter
+ */
+export type KalmanFilterOptions = {
+  /**
+   * Expected acceleration in m/s²; higher follows turns faster, lower smooths more
+   * @default 2
+   */
+  acceleration?: number;
+};
+
+/**
+ * Constant-velocity Kalman filter over latitude/longitude
+ * Each fix is weighted by its accuracy radius and the time since the previous fix,
+ * so precise fixes pull harder and long gaps trust the prediction less
+ *
+ * @example
+ * ```ts
+ * const filter = new LocationKalmanFilter();
+ * const smoothed = filter.filter(location);
+ * ```
+ */
+export class LocationKalmanFilter {
+  /** Origin of the local east/north plane, in degrees */
+  private origin: { latitude: number; longitude: number } | null = null;
+  private east: AxisState | null = null;
+  private north: AxisState | null = null;
+  private lastTimestamp = 0;
+
+  /**
+   * Feeds a fix and returns it with smoothed latitude, longitude and accuracy
+   * Fixes older than the previous one are returned unchanged
+   */
+  filter(
+    location: Location.LocationObject,
+    options: KalmanFilterOptions = {}
+  ): Location.LocationObject {
+    const { acceleration = SMOOTHING_ACCELERATION } = options;
+    const { coords, timestamp } = location;
+    const accuracy =
+      coords.accuracy && coords.accuracy > 0
+        ? coords.accuracy
+        : SMOOTHING_DEFAULT_ACCURACY;
+    const variance = accuracy * accuracy;
+
+    if (timestamp < this.lastTimestamp) return location;
+
+    if (
+      !this.origin ||
+      !this.east ||
+      !this.north ||
+      timestamp - this.lastTimestamp > SMOOTHING_RESET_GAP
+    ) {
+      // Start over from this fix
+      this.origin = {
+        latitude: coords.latitude,
+        longitude: coords.longitude,
+      };
+      this.east = createAxis(0, variance);
+      this.north = createAxis(0, variance);
+      this.lastTimestamp = timestamp;
+      return location;
+    }
+
+    const dt = (timestamp - this.lastTimestamp) / 1000;
+    const accelerationVariance = acceleration * acceleration;
+    const [x, y] = this.toLocal(coords);
+
+    this.east = correctAxis(
+      predictAxis(this.east, dt, accelerationVariance),
+      x,
+      variance
+    );
+    this.north = correctAxis(
+      predictAxis(this.north, dt, accelerationVariance),
+      y,
+      variance
+    );
+    this.lastTimestamp = timestamp;
+
+    const { latitude, longitude } = this.toCoordinates(
+      this.east.position,
+      this.north.position
+    );
+
+    return {
+      ...location,
+      coords: {
+        ...coords,
+        latitude,
+        longitude,
+        // Uncertainty of the estimate, never reported worse than the raw fix
+        accuracy: Math.min(
+          accuracy,
+          Math.sqrt(Math.max(this.east.pp, this.north.pp))
+        ),
+      },
+    };
+  }
+
+  /**
+   * Forgets the current estimate; the next fix starts a new track
+   */
+  reset(): void {
+    this.origin = null;
+    this.east = null;
+    this.north = null;
+    this.lastTimestamp = 0;
+  }
+
+  private toLocal(coords: Location.LocationObjectCoords): [number, number] {
+    const origin = this.origin as { latitude: number; longitude: number };
+    const x =
+      toRadians(coords.longitude - origin.longitude) *
+      Math.cos(toRadians(origin.latitude)) *
+      EARTH_RADIUS_METERS;
+    const y =
+      toRadians(coords.latitude - origin.latitude) * EARTH_RADIUS_METERS;
+    return [x, y];
+  }
+
+  private toCoordinates(
+    x: number,
+    y: number
+  ): { latitude: number; longitude: number } {
+    const origin = this.origin as { latitude: number; longitude: number };
+    return {
+      latitude: origin.latitude + (y / EARTH_RADIUS_METERS) * (180 / Math.PI),
+      longitude:
+        origin.longitude +
+        (x / (EARTH_RADIUS_METERS * Math.cos(toRadians(origin.latitude)))) *
+          (180 / Math.PI),
+    };
+  }
+}
@@ -0,0 +1,1350 @@
+import * as Location from "expo-location";
+import {
+  ENCRYPTED_PAYLOAD_PREFIX,
+  getLocationEncryption,
+  openStoredValue,
+  sealStoredValue,
+} from "./encryption";
+import { LocationError, toLocationError } from "./errors";
+import { isSignificantMove } from "./geo";
+import { getGeocoderProvider, type GeocoderProvider } from "./geocoder";
+import { LocationKalmanFilter } from "./kalman";
+import {
+  checkFixPlausibility,
+  type PlausibilityOptions,
+  type RejectedFix,
+} from "./outliers";
+import type { LruCacheStats } from "./lruCache";
+import { ensureForegroundPermission } from "./permission";
+import {
+  ReverseGeocodeCache,
+  type ReverseGeocodeCacheConfig,
+} from "./reverseGeocodeCache";
+import { expoLocationSource, type LocationSource } from "./source";
+import {
+  createStorageScope,
+  globalStorageScope,
+  type LocationStorageAdapter,
+  type LocationStorageScope,
+} from "./storage";
+
+/**
+ * Cached location data structure
+ */
+type CachedLocation = {
+  coords: Location.LocationObjectCoords;
+  /** Unfiltered fix, when smoothing changed the coords */
+  rawCoords?: Location.LocationObjectCoords;
+  address: Location.LocationGeocodedAddress | null;
+  timestamp: number;
+  cacheTTL: number; // Store TTL with cache to support different TTLs per caller
+};
+
+/**
+ * Configuration constants for location caching and accuracy
+ */
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutes cache validity
+const LAST_KNOWN_POSITION_MAX_AGE = 60 * 1000; // 1 minute - considers last known position valid if recent
+const REQUIRED_ACCURACY_THRESHOLD = 100; // Accepts up to 100m accuracy for fast response
+const SIGNIFICANT_CHANGE_METERS = 11; // Minimum change in meters to trigger update
+const LOCATION_STORAGE_KEY = "cached_location"; // Key for persisted location cache (namespaced)
+const WATCH_TIME_INTERVAL = 1000; // 1 second between continuous updates
+const LOCATION_TIMEOUT = 15 * 1000; // 15 seconds - give up on the initial fix
+const REFINEMENT_TIMEOUT = 30 * 1000; // 30 seconds - give up on background refinement
+const REFINEMENT_BUDGET = 20 * 1000; // 20 seconds - time allowed to reach desiredAccuracyMeters
+
+/**
+ * Accuracy levels climbed while refining towards desiredAccuracyMeters
+ * Levels at or below initialAccuracy are skipped
+ */
+const REFINEMENT_LADDER = [
+  Location.LocationAccuracy.Balanced,
+  Location.LocationAccuracy.High,
+  Location.LocationAccuracy.Highest,
+];
+
+/**
+ * Options for customizing location fetching behavior
+ */
+export type LocationFetchOptions = {
+  /**
+   * Cache time-to-live in milliseconds
+   * @default 5 * 60 * 1000 (5 minutes)
+   */
+  cacheTTL?: number;
+  /**
+   * Maximum age for last known position in milliseconds
+   * @default 60 * 1000 (1 minute)
+   */
+  lastKnownPositionMaxAge?: number;
+  /**
+   * Initial accuracy level for fast response
+   * @default Location.LocationAccuracy.Low
+   */
+  initialAccuracy?: Location.LocationAccuracy;
+  /**
+   * Refined accuracy level for background update
+   * @default Location.LocationAccuracy.Balanced
+   */
+  refinedAccuracy?: Location.LocationAccuracy;
+  /**
+   * Whether to enable background refinement
+   * @default true
+   */
+  enableRefinement?: boolean;
+  /**
+   * Maximum time in milliseconds to wait for the initial fix (0 disables)
+   * On timeout the most recent cached location is shown as stale, if any
+   * @default 15 * 1000 (15 seconds)
+   */
+  timeout?: number;
+  /**
+   * Maximum time in milliseconds to wait for background refinement (0 disables)
+   * With desiredAccuracyMeters, applies to each accuracy level
+   * @default 30 * 1000 (30 seconds)
+   */
+  refinementTimeout?: number;
+  /**
+   * Accuracy radius in meters to refine towards, replacing the single refinedAccuracy request
+   * Refinement climbs accuracy levels (or holds a watch) until a fix is this accurate
+   * or maxRefinementDuration runs out, publishing every improvement
+   */
+  desiredAccuracyMeters?: number;
+  /**
+   * Time budget in milliseconds for reaching desiredAccuracyMeters
+   * @default 20 * 1000 (20 seconds)
+   */
+  maxRefinementDuration?: number;
+  /**
+   * How to refine towards desiredAccuracyMeters
+   * - "ladder": one request per accuracy level above initialAccuracy (Balanced, High, Highest)
+   * - "watch": a short high-accuracy watch, for devices that need a few seconds of GPS to settle
+   * @default "ladder"
+   */
+  refinementMode?: "ladder" | "watch";
+  /**
+   * Minimum distance change in degrees to trigger update
+   * Only used when significantChangeMeters is not set
+   * @deprecated Degrees map to different distances depending on latitude,
+   * use significantChangeMeters instead
+   */
+  significantChangeThreshold?: number;
+  /**
+   * Minimum distance change in meters (haversine) to trigger update
+   * @default 11
+   */
+  significantChangeMeters?: number;
+  /**
+   * Whether a move must also exceed the combined accuracy radius of both fixes
+   * Prevents re-geocoding when a refined fix only moves within the error margin
+   * (a more accurate fix is still published, keeping the current address)
+   * @default true
+   */
+  accuracyAwareChange?: boolean;
+  /**
+   * Reverse geocoding provider for this caller
+   * @default the provider registered with setGeocoderProvider (platform, then offline)
+   */
+  geocoder?: GeocoderProvider;
+  /**
+   * Whether fetching may show the OS permission prompt
+   * Set to false to only check the status (see useLocationPermission)
+   * @default true
+   */
+  requestPermission?: boolean;
+  /**
+   * Smooths fixes with a constant-velocity Kalman filter before they are published
+   * Reduces marker jitter; the unfiltered fix stays available as rawCoords
+   * @default false
+   */
+  smoothing?: boolean;
+  /**
+   * Expected acceleration in m/s² used by smoothing
+   * Higher follows turns faster, lower smooths more
+   * @default 2
+   */
+  smoothingAcceleration?: number;
+  /**
+   * Drops implausible fixes before they are published (see PlausibilityOptions for thresholds)
+   * e.g. a stale cell-tower fix arriving after a good GPS fix
+   * @default true
+   */
+  rejectOutliers?: boolean;
+  /**
+   * Called with every fix dropped by the plausibility filter (for debugging)
+   */
+  onRejectedFix?: (rejection: RejectedFix) => void;
+} & PlausibilityOptions;
+
+/**
+ * Options for continuous position updates
+ */
+export type LocationWatchOptions = LocationFetchOptions & {
+  /**
+   * Accuracy level used for continuous updates
+   * @default Location.LocationAccuracy.Balanced
+   */
+  watchAccuracy?: Location.LocationAccuracy;
+  /**
+   * Minimum time in milliseconds between continuous updates
+   * @default 1000 (1 second)
+   */
+  watchTimeInterval?: number;
+  /**
+   * Minimum distance in meters between continuous updates
+   * @default 0 (filtered by significantChangeMeters instead)
+   */
+  watchDistanceInterval?: number;
+};
+
+/**
+ * Options for a manual refresh
+ */
+export type RefreshOptions = {
+  /**
+   * Restarts the fetch even if one is in progress and bypasses every cache layer
+   * Implies skipLastKnown and skipGeocodeCache unless they are set explicitly
+   * @default false
+   */
+  force?: boolean;
+  /**
+   * Skips getLastKnownPositionAsync and always requests a new GPS fix
+   * @default false
+   */
+  skipLastKnown?: boolean;
+  /**
+   * Ignores cached reverse geocoding results and resolves a new address
+   * @default false
+   */
+  skipGeocodeCache?: boolean;
+};
+
+/**
+ * Dependencies of a store, defaulting to the globally registered ones
+ */
+export type LocationStoreOptions = {
+  /**
+   * Where permissions and fixes come from
+   * @default expoLocationSource
+   */
+  source?: LocationSource;
+  /**
+   * Reverse geocoding provider used when a call does not pass one
+   * @default the provider registered with setGeocoderProvider
+   */
+  geocoder?: GeocoderProvider;
+  /**
+   * Storage for the persisted location and addresses
+   * @default the adapter registered with setLocationStorage
+   */
+  storage?: LocationStorageAdapter;
+  /**
+   * Key prefix used with `storage`, or with the registered adapter when only this is set
+   * @default "expo-location-hook"
+   */
+  storageNamespace?: string;
+};
+
+/**
+ * Immutable view of the store state, replaced on every change
+ */
+export type LocationSnapshot = {
+  /** Current coordinates or null if not available */
+  coords: Location.LocationObjectCoords | null;
+  /** Unfiltered coordinates from the source (same as coords unless smoothing is enabled) */
+  rawCoords: Location.LocationObjectCoords | null;
+  /** Reverse geocoded address or null if not available */
+  address: Location.LocationGeocodedAddress | null;
+  /** Whether location is currently being fetched */
+  loading: boolean;
+  /** Whether coords and address come from an expired cache entry */
+  stale: boolean;
+  /** Typed error if location fetch or geocoding failed, null otherwise */
+  error: LocationError | null;
+  /** When coords were last updated (ms since epoch), null if never */
+  timestamp: number | null;
+};
+
+const INITIAL_SNAPSHOT: LocationSnapshot = {
+  coords: null,
+  rawCoords: null,
+  address: null,
+  loading: false,
+  stale: false,
+  error: null,
+  timestamp: null,
+};
+
+/**
+ * Persists cached location to storage
+ * Encrypted when a cipher is registered with setLocationEncryption
+ */
+const persistLocation = async (
+  scope: LocationStorageScope,
+  location: CachedLocation | null
+): Promise<void> => {
+  const storage = scope.adapter;
+  const key = scope.namespacedKey(LOCATION_STORAGE_KEY);
+
+  try {
+    if (location) {
+      await storage.setItem(
+        key,
+        await sealStoredValue(JSON.stringify(location))
+      );
+    } else {
+      await storage.removeItem(key);
+    }
+  } catch {
+    // Ignore errors - persistence is optional
+  }
+};
+
+/**
+ * Loads cached location from storage if available
+ * Falls back to the un-namespaced key written by earlier versions (default scope only)
+ * Encrypted payloads that cannot be decrypted are treated like corrupted data
+ */
+const loadPersistedLocation = async (
+  scope: LocationStorageScope
+): Promise<CachedLocation | null> => {
+  const storage = scope.adapter;
+  const namespacedKey = scope.namespacedKey;
+
+  try {
+    let stored = await storage.getItem(namespacedKey(LOCATION_STORAGE_KEY));
+    if (!stored && scope.ownsLegacyKeys) {
+      stored = await storage.getItem(LOCATION_STORAGE_KEY);
+      if (stored) {
+        // Migrate once so the legacy key does not linger
+        await storage.setItem(namespacedKey(LOCATION_STORAGE_KEY), stored);
+        await storage.removeItem(LOCATION_STORAGE_KEY);
+      }
+    }
+    if (!stored) return null;
+
+    const plaintext = await openStoredValue(stored);
+    if (!plaintext) return null;
+
+    const parsed = JSON.parse(plaintext) as CachedLocation;
+    // Validate structure
+    if (
+      parsed &&
+      parsed.coords &&
+      typeof parsed.coords.latitude === "number" &&
+      typeof parsed.coords.longitude === "number" &&
+      typeof parsed.timestamp === "number"
+    ) {
+      // Re-write plain JSON from before encryption was enabled
+      if (
+        getLocationEncryption() &&
+        !stored.startsWith(ENCRYPTED_PAYLOAD_PREFIX)
+      ) {
+        void persistLocation(scope, parsed);
+      }
+      return parsed;
+    }
+  } catch {
+    // Ignore errors - corrupted or invalid data
+  }
+
+  return null;
+};
+
+/**
+ * Rejects with a TIMEOUT LocationError if the promise does not settle in time
+ * Also rejects as soon as the signal is aborted so callers stop waiting
+ * @param promise - Operation to wait for
+ * @param ms - Time limit in milliseconds (0 or less waits indefinitely)
+ * @param signal - AbortSignal to stop waiting early
+ */
+const withTimeout = <T>(
+  promise: Promise<T>,
+  ms: number,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (ms <= 0 && !signal) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+    const cleanup = () => {
+      if (timeoutId) clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new Error("Aborted"));
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort);
+
+    if (ms > 0) {
+      timeoutId = setTimeout(() => {
+        cleanup();
+        reject(new LocationError("TIMEOUT"));
+      }, ms);
+    }
+
+    promise.then(
+      (value) => {
+        cleanup();
+        resolve(value);
+      },
+      (error) => {
+        cleanup();
+        reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Checks if location changed significantly
+ * Uses geodesic distance unless only the legacy degree threshold is configured
+ */
+const hasSignificantChange = (
+  oldCoords: Location.LocationObjectCoords,
+  newCoords: Location.LocationObjectCoords,
+  options: LocationFetchOptions
+): boolean => {
+  const {
+    significantChangeThreshold,
+    significantChangeMeters,
+    accuracyAwareChange = true,
+  } = options;
+
+  if (
+    significantChangeMeters === undefined &&
+    significantChangeThreshold !== undefined
+  ) {
+    return (
+      Math.abs(newCoords.latitude - oldCoords.latitude) >
+        significantChangeThreshold ||
+      Math.abs(newCoords.longitude - oldCoords.longitude) >
+        significantChangeThreshold
+    );
+  }
+
+  return isSignificantMove(
+    oldCoords,
+    newCoords,
+    significantChangeMeters ?? SIGNIFICANT_CHANGE_METERS,
+    accuracyAwareChange
+  );
+};
+
+/**
+ * Whether a fix has a smaller accuracy radius (fixes without one count as least accurate)
+ */
+const isMoreAccurate = (
+  next: Location.LocationObjectCoords,
+  current: Location.LocationObjectCoords
+): boolean => (next.accuracy ?? Infinity) < (current.accuracy ?? Infinity);
+
+/**
+ * Outcome of the initial race
+ */
+type RaceResult = {
+  fix: Location.LocationObject | null;
+  /** Why no fix arrived (the new fix's error first, then the last known one's) */
+  cause?: unknown;
+};
+
+/**
+ * Fetches location using true Promise.race for fastest response
+ * Optimized to prefer last known position (instant) over new fetch
+ */
+const fetchLocationWithRace = async (
+  source: LocationSource,
+  signal: AbortSignal,
+  options: {
+    skipLastKnown: boolean;
+    lastKnownPositionMaxAge: number;
+    initialAccuracy: Location.LocationAccuracy;
+  }
+): Promise<RaceResult> => {
+  const { skipLastKnown, lastKnownPositionMaxAge, initialAccuracy } = options;
+  let lastKnownError: unknown;
+  let newPositionError: unknown;
+  const toResult = (fix: Location.LocationObject | null): RaceResult => ({
+    fix,
+    cause: fix ? undefined : (newPositionError ?? lastKnownError),
+  });
+
+  // Try last known position first (usually instant)
+  const lastKnownPromise = skipLastKnown
+    ? Promise.resolve(null)
+    : source
+        .getLastKnownPositionAsync({
+          maxAge: lastKnownPositionMaxAge,
+          requiredAccuracy: REQUIRED_ACCURACY_THRESHOLD,
+        })
+        .catch((error: unknown) => {
+          lastKnownError = error;
+          return null;
+        })
+        .then((result) => {
+          if (signal.aborted) return null;
+          return result;
+        });
+
+  // Start new position fetch in parallel
+  const newPositionPromise = source
+    .getCurrentPositionAsync({ accuracy: initialAccuracy })
+    .catch((error: unknown) => {
+      newPositionError = error;
+      return null;
+    })
+    .then((result) => {
+      if (signal.aborted) return null;
+      return result;
+    });
+
+  // Without last known position there is nothing to race against
+  if (skipLastKnown) return toResult(await newPositionPromise);
+
+  // True Promise.race - get whichever resolves first
+  // Last known is usually faster, so this optimizes for common case
+  const raceResult = await Promise.race([lastKnownPromise, newPositionPromise]);
+
+  if (signal.aborted) return toResult(null);
+  if (raceResult) return toResult(raceResult);
+
+  // Fallback: wait for both and get first valid result
+  // Use Promise.allSettled for better error handling
+  const [lastKnown, newPosition] = await Promise.allSettled([
+    lastKnownPromise,
+    newPositionPromise,
+  ]);
+
+  if (signal.aborted) return toResult(null);
+
+  // Prefer lastKnown if available (it's usually more recent)
+  if (lastKnown.status === "fulfilled" && lastKnown.value) {
+    return toResult(lastKnown.value);
+  }
+
+  if (newPosition.status === "fulfilled" && newPosition.value) {
+    return toResult(newPosition.value);
+  }
+
+  return toResult(null);
+};
+
+/**
+ * Framework-agnostic owner of location state, fetching and caching
+ *
+ * Features:
+ * - Fast response using cached location and last known position
+ * - Progressive accuracy (low → balanced)
+ * - Automatic reverse geocoding
+ * - Deduplicates concurrent fetches (a forced refresh takes over)
+ * - Cancels pending work with AbortController once nobody is subscribed
+ * - Optional continuous updates (watch mode)
+ *
+ * Every subscriber sees the same snapshot, so a refresh from one consumer
+ * updates all of them
+ *
+ * @example
+ * ```ts
+ * const unsubscribe = defaultLocationStore.subscribe(() => {
+ *   const { coords } = defaultLocationStore.getSnapshot();
+ *   analytics.track("location", coords);
+ * });
+ * await defaultLocationStore.refresh();
+ * ```
+ */
+export class LocationStore {
+  /** Where permissions and fixes come from */
+  readonly source: LocationSource;
+  /** Where location data is persisted */
+  readonly storage: LocationStorageScope;
+  private geocoder: GeocoderProvider | null;
+  private geocodeCache: ReverseGeocodeCache;
+  private snapshot: LocationSnapshot = INITIAL_SNAPSHOT;
+  private listeners = new Set<() => void>();
+  /** Most recent location, used regardless of TTL for instant UX */
+  private cachedLocation: CachedLocation | null = null;
+  private hasHydrated = false;
+  private abortController: AbortController | null = null;
+  private inFlightFetch: Promise<void> | null = null;
+  /** Smoothing state shared by every path that receives fixes */
+  private smoother = new LocationKalmanFilter();
+  /** Last raw fix that passed the plausibility filter */
+  private lastAcceptedFix: Location.LocationObject | null = null;
+
+  constructor(options: LocationStoreOptions = {}) {
+    const {
+      source = expoLocationSource,
+      geocoder,
+      storage,
+      storageNamespace,
+    } = options;
+    this.source = source;
+    this.geocoder = geocoder ?? null;
+    this.storage =
+      storage || storageNamespace !== undefined
+        ? createStorageScope(storage, { namespace: storageNamespace })
+        : globalStorageScope;
+    this.geocodeCache = new ReverseGeocodeCache(this.storage);
+  }
+
+  /**
+   * Registers a listener called after every snapshot change
+   * Pending work is cancelled when the last listener is removed
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.abort();
+      }
+    };
+  };
+
+  /**
+   * Returns the current snapshot (same reference until the state changes)
+   */
+  getSnapshot = (): LocationSnapshot => this.snapshot;
+
+  /**
+   * Shows the cached location and fetches a new one if it is missing or expired
+   * Joins the in-flight fetch instead of starting another one
+   */
+  ensureLocation(options: LocationFetchOptions = {}): Promise<void> {
+    const { cacheTTL = CACHE_TTL } = options;
+
+    this.hydrate();
+
+    // Show cached location immediately (even if expired) for instant UX
+    if (this.cachedLocation) {
+      if (this.snapshot.timestamp !== this.cachedLocation.timestamp) {
+        this.applyCachedLocation(cacheTTL);
+      }
+      if (this.isCacheValid(cacheTTL)) return Promise.resolve();
+    }
+
+    return this.inFlightFetch ?? this.refresh(options);
+  }
+
+  /**
+   * Fetches the current location using optimized strategy:
+   * 1. Uses last known position (very fast)
+   * 2. Fetches new location with low accuracy (fast)
+   * 3. Refines with higher accuracy in background (optional)
+   *
+   * Concurrent calls share the in-flight fetch unless `force` is set
+   * A forced refresh skips the cache layers and publishes coords and address together
+   */
+  refresh(options: LocationFetchOptions & RefreshOptions = {}): Promise<void> {
+    if (this.inFlightFetch && !options.force) return this.inFlightFetch;
+
+    // Cancel any previous fetch
+    this.abortController?.abort();
+    const abortController = new AbortController();
+    this.abortController = abortController;
+
+    const fetchPromise = this.runFetch(options, abortController).finally(() => {
+      // Unless a newer fetch has already taken over
+      if (this.abortController === abortController) {
+        this.inFlightFetch = null;
+      }
+    });
+    this.inFlightFetch = fetchPromise;
+    return fetchPromise;
+  }
+
+  /**
+   * Subscribes to continuous position updates
+   * Updates are published to every subscriber of the store
+   * @returns Function that stops watching
+   */
+  watch(options: LocationWatchOptions = {}): () => void {
+    const {
+      cacheTTL = CACHE_TTL,
+      geocoder,
+      requestPermission = true,
+      watchAccuracy = Location.LocationAccuracy.Balanced,
+      watchTimeInterval = WATCH_TIME_INTERVAL,
+      watchDistanceInterval = 0,
+    } = options;
+
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    let subscription: Location.LocationSubscription | null = null;
+    // Last coordinates accepted from the watch, seeded from the shared cache
+    let lastCoords: Location.LocationObjectCoords | null =
+      this.cachedLocation?.coords ?? null;
+    // Latest published fix, so an address only ever lands on current coords
+    let latest: {
+      location: Location.LocationObject;
+      rawCoords: Location.LocationObjectCoords;
+    } | null = null;
+    // Bumped on every geocode, so a slow lookup for an earlier place is dropped
+    let geocodeSequence = 0;
+
+    const handleUpdate = (fix: Location.LocationObject): void => {
+      if (signal.aborted) return;
+      const location = this.processFix(fix, options);
+      if (!location) return;
+      if (
+        lastCoords &&
+        !hasSignificantChange(lastCoords, location.coords, options)
+      ) {
+        // Same place, but a better fix is worth showing without geocoding again
+        if (isMoreAccurate(location.coords, lastCoords)) {
+          lastCoords = location.coords;
+          latest = { location, rawCoords: fix.coords };
+          this.updateLocation(
+            location,
+            this.cachedLocation?.address ?? null,
+            cacheTTL,
+            fix.coords
+          );
+        }
+        return;
+      }
+      lastCoords = location.coords;
+      latest = { location, rawCoords: fix.coords };
+      const sequence = ++geocodeSequence;
+
+      this.publish({
+        coords: location.coords,
+        rawCoords: fix.coords,
+        stale: false,
+        loading: false,
+        timestamp: Date.now(),
+      });
+
+      // Fetch address asynchronously (non-blocking)
+      void this.resolveAddress(location.coords, signal, geocoder).then(
+        (geocodedAddress) => {
+          // A later move started its own lookup; only that one may publish
+          if (signal.aborted || sequence !== geocodeSequence || !latest) {
+            return;
+          }
+          // Attach to the latest fix, which may be a more accurate one of the same place
+          this.updateLocation(
+            latest.location,
+            geocodedAddress,
+            cacheTTL,
+            latest.rawCoords
+          );
+        }
+      );
+    };
+
+    const startWatching = async () => {
+      try {
+        await ensureForegroundPermission(requestPermission, this.source);
+        if (signal.aborted) return;
+
+        const watchSubscription = await this.source.watchPositionAsync(
+          {
+            accuracy: watchAccuracy,
+            timeInterval: watchTimeInterval,
+            distanceInterval: watchDistanceInterval,
+          },
+          handleUpdate
+        );
+
+        // Stopped while subscribing - remove immediately
+        if (signal.aborted) {
+          watchSubscription.remove();
+          return;
+        }
+        subscription = watchSubscription;
+      } catch (watchError) {
+        if (signal.aborted) return;
+        if (__DEV__) {
+          console.warn("Error watching location:", watchError);
+        }
+        this.publish({ error: toLocationError(watchError) });
+      }
+    };
+
+    void startWatching();
+
+    return () => {
+      abortController.abort();
+      subscription?.remove();
+      subscription = null;
+    };
+  }
+
+  /**
+   * Publishes a fix delivered from outside the store (e.g. a background task)
+   * Keeps the current address unless the move is significant enough to geocode again
+   */
+  async receiveLocation(
+    fix: Location.LocationObject,
+    options: LocationFetchOptions = {}
+  ): Promise<void> {
+    const { cacheTTL = CACHE_TTL, geocoder } = options;
+    const location = this.processFix(fix, options);
+    if (!location) return;
+    const previous = this.cachedLocation;
+
+    if (
+      previous &&
+      !hasSignificantChange(previous.coords, location.coords, options)
+    ) {
+      this.updateLocation(location, previous.address, cacheTTL, fix.coords);
+      return;
+    }
+
+    const geocodedAddress = await this.resolveAddress(
+      location.coords,
+      undefined,
+      geocoder
+    );
+    this.updateLocation(location, geocodedAddress, cacheTTL, fix.coords);
+  }
+
+  /**
+   * Cancels the in-flight fetch and its background refinement
+   */
+  abort(): void {
+    this.abortController?.abort();
+    this.abortController = null;
+    this.inFlightFetch = null;
+    if (this.snapshot.loading) {
+      this.publish({ loading: false });
+    }
+  }
+
+  /**
+   * Cancels pending work and forgets the cached location and addresses
+   * Mainly for tests; subscribers are notified with an empty snapshot
+   */
+  reset(): void {
+    this.smoother.reset();
+    this.lastAcceptedFix = null;
+    this.abort();
+    this.cachedLocation = null;
+    this.hasHydrated = false;
+    this.geocodeCache.clear();
+    this.publish(INITIAL_SNAPSHOT);
+  }
+
+  /**
+   * Checks if the cached location is still valid
+   * The TTL stored with the cache takes precedence over the given one
+   */
+  isCacheValid(cacheTTL = CACHE_TTL): boolean {
+    if (!this.cachedLocation) return false;
+    const effectiveTTL = this.cachedLocation.cacheTTL || cacheTTL;
+    return Date.now() - this.cachedLocation.timestamp < effectiveTTL;
+  }
+
+  /**
+   * Updates the reverse geocode cache limits
+   * Shrinking a limit evicts least recently used entries immediately
+   */
+  configureGeocodeCache(config: ReverseGeocodeCacheConfig): void {
+    this.geocodeCache.configure(config);
+  }
+
+  /**
+   * Returns hit/miss/eviction counters for tuning the reverse geocode cache
+   */
+  getGeocodeCacheStats(): LruCacheStats {
+    return this.geocodeCache.stats();
+  }
+
+  /**
+   * Replaces the snapshot and notifies every listener
+   */
+  private publish(changes: Partial<LocationSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...changes };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Loads the persisted location into the cache once
+   */
+  private hydrate(): void {
+    if (this.hasHydrated) return;
+    this.hasHydrated = true;
+
+    void loadPersistedLocation(this.storage).then((persisted) => {
+      if (persisted && !this.cachedLocation) {
+        this.cachedLocation = persisted;
+      }
+    });
+  }
+
+  /**
+   * Runs a single fetch, publishing progress to the snapshot
+   */
+  private async runFetch(
+    options: LocationFetchOptions & RefreshOptions,
+    abortController: AbortController
+  ): Promise<void> {
+    const {
+      force = false,
+      skipLastKnown = force,
+      skipGeocodeCache = force,
+      cacheTTL = CACHE_TTL,
+      lastKnownPositionMaxAge = LAST_KNOWN_POSITION_MAX_AGE,
+      initialAccuracy = Location.LocationAccuracy.Low,
+      refinedAccuracy = Location.LocationAccuracy.Balanced,
+      enableRefinement = true,
+      timeout = LOCATION_TIMEOUT,
+      refinementTimeout = REFINEMENT_TIMEOUT,
+      desiredAccuracyMeters,
+      geocoder,
+      requestPermission = true,
+    } = options;
+    const { signal } = abortController;
+
+    this.publish({ loading: true, error: null });
+
+    try {
+      await ensureForegroundPermission(requestPermission, this.source);
+      if (signal.aborted) return;
+
+      const { fix, cause } = await withTimeout(
+        fetchLocationWithRace(this.source, signal, {
+          skipLastKnown,
+          lastKnownPositionMaxAge,
+          initialAccuracy,
+        }),
+        timeout,
+        signal
+      );
+      if (signal.aborted) return;
+      if (!fix) {
+        // Tell disabled services apart from a plain missing fix
+        const servicesEnabled = await this.source
+          .hasServicesEnabledAsync()
+          .catch(() => true);
+        if (signal.aborted) return;
+        throw new LocationError(
+          servicesEnabled ? "NO_FIX" : "SERVICES_DISABLED",
+          cause
+        );
+      }
+      const accepted = this.processFix(fix, options);
+
+      let location: Location.LocationObject;
+      let initialAddress: Promise<Location.LocationGeocodedAddress | null>;
+      if (!accepted) {
+        // Implausible fix - keep showing the current location, but still refine from it
+        this.publish({ loading: false });
+        if (!this.lastAcceptedFix) return;
+        location = this.lastAcceptedFix;
+        initialAddress = Promise.resolve(this.snapshot.address);
+      } else if (force) {
+        location = accepted;
+        // Wait for the new address so the snapshot and caches switch over in one update
+        const geocodedAddress = await this.resolveAddress(
+          location.coords,
+          signal,
+          geocoder,
+          skipGeocodeCache
+        );
+        if (signal.aborted) return;
+        this.updateLocation(location, geocodedAddress, cacheTTL, fix.coords);
+        initialAddress = Promise.resolve(geocodedAddress);
+      } else {
+        location = accepted;
+        this.publish({
+          coords: location.coords,
+          rawCoords: fix.coords,
+          stale: false,
+          loading: false,
+          timestamp: Date.now(),
+        });
+
+        // Fetch address asynchronously (non-blocking)
+        initialAddress = this.resolveAddress(
+          location.coords,
+          signal,
+          geocoder,
+          skipGeocodeCache
+        ).then((geocodedAddress) => {
+          if (!signal.aborted) {
+            this.updateLocation(
+              location,
+              geocodedAddress,
+              cacheTTL,
+              fix.coords
+            );
+          }
+          return geocodedAddress;
+        });
+      }
+
+      // Optionally refine location in background (non-blocking)
+      if (
+        enableRefinement &&
+        !signal.aborted &&
+        desiredAccuracyMeters !== undefined
+      ) {
+        void this.refineToAccuracy(location, initialAddress, options, signal);
+      } else if (enableRefinement && !signal.aborted) {
+        void withTimeout(
+          this.source.getCurrentPositionAsync({ accuracy: refinedAccuracy }),
+          refinementTimeout,
+          signal
+        )
+          .then((refinedFix) => {
+            if (signal.aborted) return;
+            const refinedLocation = this.processFix(refinedFix, options);
+            if (!refinedLocation) return;
+
+            if (
+              hasSignificantChange(
+                location.coords,
+                refinedLocation.coords,
+                options
+              )
+            ) {
+              // Update location with refined coordinates and address
+              void this.resolveAddress(
+                refinedLocation.coords,
+                signal,
+                geocoder,
+                skipGeocodeCache
+              ).then((geocodedAddress) => {
+                if (!signal.aborted) {
+                  this.updateLocation(
+                    refinedLocation,
+                    geocodedAddress,
+                    cacheTTL,
+                    refinedFix.coords
+                  );
+                }
+              });
+            } else if (
+              isMoreAccurate(refinedLocation.coords, location.coords)
+            ) {
+              // Within the error margin - keep the initial address
+              void initialAddress.then((geocodedAddress) => {
+                if (!signal.aborted) {
+                  this.updateLocation(
+                    refinedLocation,
+                    geocodedAddress,
+                    cacheTTL,
+                    refinedFix.coords
+                  );
+                }
+              });
+            }
+          })
+          .catch(() => {
+            // Silently ignore - we already have a valid location
+          });
+      }
+    } catch (fetchError) {
+      if (signal.aborted) return;
+
+      const locationError = toLocationError(fetchError);
+      if (locationError.code === "TIMEOUT") {
+        // Drop late results so they never overwrite the fallback state
+        abortController.abort();
+        if (await this.applyStaleFallback()) return;
+      }
+
+      this.publish({
+        error: locationError,
+        coords: null,
+        rawCoords: null,
+        address: null,
+        loading: false,
+        timestamp: null,
+      });
+    }
+  }
+
+  /**
+   * Refines a fix until it reaches desiredAccuracyMeters or maxRefinementDuration runs out
+   * Fixes are requested right away; improvements are published in order,
+   * each once its address is known
+   */
+  private async refineToAccuracy(
+    initial: Location.LocationObject,
+    initialAddress: Promise<Location.LocationGeocodedAddress | null>,
+    options: LocationFetchOptions & RefreshOptions,
+    signal: AbortSignal
+  ): Promise<void> {
+    const {
+      force = false,
+      skipGeocodeCache = force,
+      cacheTTL = CACHE_TTL,
+      initialAccuracy = Location.LocationAccuracy.Low,
+      refinementTimeout = REFINEMENT_TIMEOUT,
+      desiredAccuracyMeters = 0,
+      maxRefinementDuration = REFINEMENT_BUDGET,
+      refinementMode = "ladder",
+      geocoder,
+    } = options;
+
+    const deadline = Date.now() + maxRefinementDuration;
+    let best = initial;
+    let address = initialAddress;
+    // Starts after the initial address so an earlier fix never overwrites a refined one
+    let publishing: Promise<void> = initialAddress.then(() => undefined);
+
+    const isDone = (): boolean =>
+      signal.aborted ||
+      (best.coords.accuracy ?? Infinity) <= desiredAccuracyMeters ||
+      Date.now() >= deadline;
+
+    const improve = (fix: Location.LocationObject): void => {
+      if (isDone()) return;
+      const location = this.processFix(fix, options);
+      if (!location || !isMoreAccurate(location.coords, best.coords)) return;
+
+      if (hasSignificantChange(best.coords, location.coords, options)) {
+        address = this.resolveAddress(
+          location.coords,
+          signal,
+          geocoder,
+          skipGeocodeCache
+        );
+      }
+      best = location;
+
+      const locationAddress = address;
+      publishing = publishing.then(async () => {
+        const geocodedAddress = await locationAddress;
+        if (!signal.aborted) {
+          this.updateLocation(location, geocodedAddress, cacheTTL, fix.coords);
+        }
+      });
+    };
+
+    if (refinementMode === "ladder") {
+      for (const level of REFINEMENT_LADDER) {
+        if (level <= initialAccuracy) continue;
+        if (isDone()) break;
+
+        const remaining = deadline - Date.now();
+        try {
+          const fix = await withTimeout(
+            this.source.getCurrentPositionAsync({ accuracy: level }),
+            refinementTimeout > 0
+              ? Math.min(refinementTimeout, remaining)
+              : remaining,
+            signal
+          );
+          improve(fix);
+        } catch {
+          // Level failed or timed out - try the next one while budget remains
+        }
+      }
+      await publishing;
+      return;
+    }
+
+    // Hold a watch until the target or the deadline is reached
+    if (isDone()) return;
+    await new Promise<void>((resolve) => {
+      let subscription: Location.LocationSubscription | null = null;
+      let finished = false;
+
+      const finish = (): void => {
+        if (finished) return;
+        finished = true;
+        clearTimeout(timeoutId);
+        signal.removeEventListener("abort", finish);
+        subscription?.remove();
+        subscription = null;
+        resolve();
+      };
+      const timeoutId = setTimeout(finish, Math.max(0, deadline - Date.now()));
+      signal.addEventListener("abort", finish);
+
+      this.source
+        .watchPositionAsync(
+          {
+            accuracy: Location.LocationAccuracy.Highest,
+            timeInterval: WATCH_TIME_INTERVAL,
+            distanceInterval: 0,
+          },
+          (fix) => {
+            improve(fix);
+            if (isDone()) finish();
+          }
+        )
+        .then((watchSubscription) => {
+          if (finished) {
+            watchSubscription.remove();
+          } else {
+            subscription = watchSubscription;
+          }
+        })
+        .catch(finish);
+    });
+    await publishing;
+  }
+
+  /**
+   * Updates the snapshot and the cache
+   * Prevents race conditions by ignoring outdated updates
+   */
+  private updateLocation(
+    location: Location.LocationObject,
+    geocodedAddress: Location.LocationGeocodedAddress | null,
+    cacheTTL: number,
+    rawCoords: Location.LocationObjectCoords = location.coords
+  ): void {
+    const timestamp = Date.now();
+
+    // Ignore updates that are older than current cache (prevents race conditions)
+    if (this.cachedLocation && timestamp < this.cachedLocation.timestamp) {
+      return;
+    }
+
+    const cachedLocation: CachedLocation = {
+      coords: location.coords,
+      rawCoords: rawCoords !== location.coords ? rawCoords : undefined,
+      address: geocodedAddress,
+      timestamp,
+      cacheTTL,
+    };
+    this.cachedLocation = cachedLocation;
+
+    this.publish({
+      coords: location.coords,
+      rawCoords,
+      address: geocodedAddress,
+      stale: false,
+      loading: false,
+      timestamp,
+      // A resolved address supersedes an earlier GEOCODE_FAILED
+      ...(geocodedAddress ? { error: null } : {}),
+    });
+
+    // Persist to storage asynchronously (non-blocking)
+    void persistLocation(this.storage, cachedLocation);
+  }
+
+  /**
+   * Runs a fix from the source through the plausibility filter and the optional smoothing stage
+   * Every path that receives fixes calls this before comparing, publishing or caching
+   * @returns The fix to use, or null if it was rejected
+   */
+  private processFix(
+    fix: Location.LocationObject,
+    options: LocationFetchOptions & RefreshOptions
+  ): Location.LocationObject | null {
+    const {
+      force = false,
+      rejectOutliers = true,
+      onRejectedFix,
+      smoothing = false,
+      smoothingAcceleration,
+    } = options;
+
+    if (rejectOutliers) {
+      const rejection = checkFixPlausibility(
+        fix,
+        this.lastAcceptedFix,
+        options
+      );
+      // A forced refresh asked for a new fix, even if it is less accurate than the last one
+      if (rejection && !(force && rejection.reason === "accuracy")) {
+        try {
+          onRejectedFix?.(rejection);
+        } catch {
+          // Ignore errors - the callback is only for debugging
+        }
+        return null;
+      }
+    }
+    this.lastAcceptedFix = fix;
+
+    if (!smoothing) return fix;
+    return this.smoother.filter(fix, { acceleration: smoothingAcceleration });
+  }
+
+  /**
+   * Reverse geocodes coordinates, reporting failures as GEOCODE_FAILED
+   * Resolves to null on failure so coordinates can still be published
+   */
+  private async resolveAddress(
+    coords: Location.LocationObjectCoords,
+    signal?: AbortSignal,
+    geocoder?: GeocoderProvider,
+    skipCache = false
+  ): Promise<Location.LocationGeocodedAddress | null> {
+    try {
+      return await this.geocodeCache.reverseGeocode(
+        coords,
+        geocoder ?? this.geocoder ?? getGeocoderProvider(),
+        signal,
+        skipCache
+      );
+    } catch (geocodeError) {
+      if (!signal?.aborted) {
+        this.publish({
+          error: toLocationError(geocodeError, "GEOCODE_FAILED"),
+        });
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Publishes the cached location, marked stale once its TTL elapsed
+   */
+  private applyCachedLocation(cacheTTL: number): void {
+    if (!this.cachedLocation) return;
+
+    this.publish({
+      coords: this.cachedLocation.coords,
+      rawCoords: this.cachedLocation.rawCoords ?? this.cachedLocation.coords,
+      address: this.cachedLocation.address,
+      stale: !this.isCacheValid(cacheTTL),
+      error: null,
+      loading: this.inFlightFetch !== null,
+      timestamp: this.cachedLocation.timestamp,
+    });
+  }
+
+  /**
+   * Shows the most recent cached location (in memory or persisted) as stale
+   * Used when no fresh fix arrives in time
+   * @returns Whether a cached location was available
+   */
+  private async applyStaleFallback(): Promise<boolean> {
+    const persisted = await loadPersistedLocation(this.storage);
+    const best =
+      persisted &&
+      (!this.cachedLocation ||
+        persisted.timestamp > this.cachedLocation.timestamp)
+        ? persisted
+        : this.cachedLocation;
+    if (!best) return false;
+
+    if (!this.cachedLocation) {
+      this.cachedLocation = best;
+    }
+
+    this.publish({
+      coords: best.coords,
+      rawCoords: best.rawCoords ?? best.coords,
+      address: best.address,
+      stale: true,
+      error: null,
+      loading: false,
+      timestamp: best.timestamp,
+    });
+    return true;
+  }
+}
+
+/**
+ * Store shared by every useLocation instance and by non-React code
+ */
+export const defaultLocationStore = new LocationStore();
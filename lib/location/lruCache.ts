@@ -0,0 +1,180 @@
+/**
+ * Options for a bounded LRU cache
+ */
+export type LruCacheOptions<V> = {
+  /** Maximum number of entries before the least recently used is evicted */
+  maxSize: number;
+  /** Time-to-live in milliseconds, entries older than this are treated as misses */
+  ttl: number;
+  /** Optional approximate memory budget in bytes (requires sizeOf) */
+  maxBytes?: number;
+  /** Estimates the size of a value in bytes for the memory budget */
+  sizeOf?: (value: V) => number;
+};
+
+/**
+ * Counters exposed for tuning cache limits
+ */
+export type LruCacheStats = {
+  hits: number;
+  misses: number;
+  /** Entries removed to stay within maxSize or maxBytes */
+  evictions: number;
+  /** Entries removed because their TTL elapsed */
+  expirations: number;
+  size: number;
+  bytes: number;
+};
+
+type LruEntry<V> = {
+  value: V;
+  timestamp: number;
+  bytes: number;
+  /** Overrides the cache-wide TTL for this entry */
+  ttl?: number;
+};
+
+/**
+ * Estimates the size of a JSON-serializable value (UTF-16, 2 bytes per char)
+ */
+export const estimateJsonSize = (value: unknown): number =>
+  (JSON.stringify(value)?.length ?? 0) * 2;
+
+/**
+ * Least-recently-used cache with TTL, entry and memory limits
+ * Relies on Map insertion order: the first key is always the least recently used
+ */
+export class LruCache<K, V> {
+  private entries = new Map<K, LruEntry<V>>();
+  private options: LruCacheOptions<V>;
+  private totalBytes = 0;
+  private counters = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
+
+  constructor(options: LruCacheOptions<V>) {
+    this.options = options;
+  }
+
+  /**
+   * Returns a fresh value and marks it as most recently used
+   * Expired entries are removed and reported as misses
+   */
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.counters.misses++;
+      return undefined;
+    }
+
+    if (this.isExpired(entry)) {
+      this.remove(key, entry);
+      this.counters.expirations++;
+      this.counters.misses++;
+      return undefined;
+    }
+
+    // Re-insert to move the key to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.counters.hits++;
+    return entry.value;
+  }
+
+  /**
+   * Stores a value, evicting least recently used entries to respect the limits
+   * @param timestamp - When the value was produced, defaults to now
+   * @param ttl - Overrides the cache-wide TTL for this entry
+   */
+  set(key: K, value: V, timestamp = Date.now(), ttl?: number): void {
+    const existing = this.entries.get(key);
+    if (existing) this.remove(key, existing);
+
+    const bytes = this.options.sizeOf ? this.options.sizeOf(value) : 0;
+    this.entries.set(key, { value, timestamp, bytes, ttl });
+    this.totalBytes += bytes;
+
+    this.evict();
+  }
+
+  /**
+   * Checks for a fresh entry without affecting recency or stats
+   */
+  has(key: K): boolean {
+    const entry = this.entries.get(key);
+    return !!entry && !this.isExpired(entry);
+  }
+
+  delete(key: K): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+    this.remove(key, entry);
+    return true;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Updates the limits, evicting immediately if the cache is now too large
+   */
+  configure(options: Partial<LruCacheOptions<V>>): void {
+    this.options = { ...this.options, ...options };
+    this.evict();
+  }
+
+  /**
+   * Lists unexpired entries from least to most recently used
+   * Does not affect recency or stats
+   */
+  snapshot(): Array<{ key: K; value: V; timestamp: number }> {
+    const result: Array<{ key: K; value: V; timestamp: number }> = [];
+    this.entries.forEach((entry, key) => {
+      if (!this.isExpired(entry)) {
+        result.push({ key, value: entry.value, timestamp: entry.timestamp });
+      }
+    });
+    return result;
+  }
+
+  stats(): LruCacheStats {
+    return {
+      ...this.counters,
+      size: this.entries.size,
+      bytes: this.totalBytes,
+    };
+  }
+
+  resetStats(): void {
+    this.counters = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
+  }
+
+  private isExpired(entry: LruEntry<V>): boolean {
+    return Date.now() - entry.timestamp >= (entry.ttl ?? this.options.ttl);
+  }
+
+  private remove(key: K, entry: LruEntry<V>): void {
+    this.entries.delete(key);
+    this.totalBytes -= entry.bytes;
+  }
+
+  /**
+   * Drops least recently used entries until both limits are satisfied
+   */
+  private evict(): void {
+    const { maxSize, maxBytes } = this.options;
+
+    for (const [key, entry] of Array.from(this.entries.entries())) {
+      const overSize = this.entries.size > maxSize;
+      const overBytes = maxBytes !== undefined && this.totalBytes > maxBytes;
+      if (!overSize && !overBytes) break;
+
+      this.remove(key, entry);
+      this.counters.evictions++;
+    }
+  }
+}
@@ -0,0 +1,193 @@
+import type * as Location from "expo-location";
+import { COUNTRY_NAMES, PLACES, type PlaceRecord } from "./data/places";
+import { haversineDistance, type Coordinates } from "./geo";
+import type { GeocoderProvider } from "./geocoder";
+
+/**
+ * Address resolved from the bundled dataset
+ * Only city, region and country are known, so it is always approximate
+ */
+export type ApproximateGeocodedAddress = Location.LocationGeocodedAddress & {
+  approximate: true;
+  /** Distance in meters from the coordinates to the matched place */
+  distanceMeters: number;
+};
+
+/**
+ * Options for creating an offline geocoder
+ */
+export type OfflineGeocoderOptions = {
+  /**
+   * Places to search, in the bundled dataset format
+   * @default PLACES (bundled dataset)
+   */
+  places?: PlaceRecord[];
+  /**
+   * Maximum distance in meters to the nearest place before giving up
+   * @default 150 * 1000 (150 km)
+   */
+  maxDistanceMeters?: number;
+};
+
+const OFFLINE_MAX_DISTANCE = 150 * 1000; // 150 km - beyond that a city name is misleading
+
+/**
+ * Node of a 3-d tree over unit-sphere vectors
+ * Using 3D points makes nearest-neighbour search correct across the antimeridian and poles
+ */
+type KdNode = {
+  place: PlaceRecord;
+  point: [number, number, number];
+  axis: 0 | 1 | 2;
+  left: KdNode | null;
+  right: KdNode | null;
+};
+
+const toUnitVector = (
+  latitude: number,
+  longitude: number
+): [number, number, number] => {
+  const lat = (latitude * Math.PI) / 180;
+  const lng = (longitude * Math.PI) / 180;
+  return [
+    Math.cos(lat) * Math.cos(lng),
+    Math.cos(lat) * Math.sin(lng),
+    Math.sin(lat),
+  ];
+};
+
+const squaredDistance = (
+  a: [number, number, number],
+  b: [number, number, number]
+): number => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+/**
+ * Builds a balanced 3-d tree by splitting on the median of each axis in turn
+ */
+const buildKdTree = (
+  entries: Array<{ place: PlaceRecord; point: [number, number, number] }>,
+  depth = 0
+): KdNode | null => {
+  if (entries.length === 0) return null;
+
+  const axis = (depth % 3) as 0 | 1 | 2;
+  const sorted = [...entries].sort((a, b) => a.point[axis] - b.point[axis]);
+  const median = Math.floor(sorted.length / 2);
+
+  return {
+    place: sorted[median].place,
+    point: sorted[median].point,
+    axis,
+    left: buildKdTree(sorted.slice(0, median), depth + 1),
+    right: buildKdTree(sorted.slice(median + 1), depth + 1),
+  };
+};
+
+/**
+ * Finds the node closest to the target, pruning branches that cannot be closer
+ */
+const findNearest = (
+  node: KdNode | null,
+  target: [number, number, number],
+  best: { node: KdNode | null; distance: number }
+): void => {
+  if (!node) return;
+
+  const distance = squaredDistance(node.point, target);
+  if (distance < best.distance) {
+    best.node = node;
+    best.distance = distance;
+  }
+
+  const delta = target[node.axis] - node.point[node.axis];
+  const [near, far] =
+    delta < 0 ? [node.left, node.right] : [node.right, node.left];
+
+  findNearest(near, target, best);
+  if (delta ** 2 < best.distance) {
+    findNearest(far, target, best);
+  }
+};
+
+/**
+ * Creates a geocoder that resolves coordinates to the nearest known place
+ * The spatial index is built lazily on first lookup
+ *
+ * @example
+ * ```ts
+ * const geocoder = createOfflineGeocoder({ maxDistanceMeters: 50 * 1000 });
+ * const address = await geocoder.reverseGeocode({ latitude: -23.55, longitude: -46.63 });
+ * // { city: "São Paulo", region: "São Paulo", isoCountryCode: "BR", approximate: true, ... }
+ * ```
+ */
+export const createOfflineGeocoder = (
+  options: OfflineGeocoderOptions = {}
+): GeocoderProvider & {
+  reverseGeocode: (
+    coords: Coordinates
+  ) => Promise<ApproximateGeocodedAddress | null>;
+} => {
+  const { places = PLACES, maxDistanceMeters = OFFLINE_MAX_DISTANCE } = options;
+
+  let root: KdNode | null | undefined;
+
+  const lookup = (coords: Coordinates): ApproximateGeocodedAddress | null => {
+    if (root === undefined) {
+      root = buildKdTree(
+        places.map((place) => ({
+          place,
+          point: toUnitVector(place[3], place[4]),
+        }))
+      );
+    }
+
+    const best: { node: KdNode | null; distance: number } = {
+      node: null,
+      distance: Infinity,
+    };
+    findNearest(root, toUnitVector(coords.latitude, coords.longitude), best);
+    if (!best.node) return null;
+
+    const [city, region, isoCountryCode, latitude, longitude] = best.node.place;
+    const distanceMeters = haversineDistance(coords, { latitude, longitude });
+    if (distanceMeters > maxDistanceMeters) return null;
+
+    const country = COUNTRY_NAMES[isoCountryCode] ?? null;
+
+    return {
+      city,
+      district: null,
+      streetNumber: null,
+      street: null,
+      region,
+      subregion: null,
+      country,
+      postalCode: null,
+      name: city,
+      isoCountryCode,
+      timezone: null,
+      formattedAddress: [city, region, country].filter(Boolean).join(", "),
+      approximate: true,
+      distanceMeters,
+    };
+  };
+
+  return {
+    name: "offline",
+    reverseGeocode: async (coords) => lookup(coords),
+  };
+};
+
+/**
+ * Offline geocoder backed by the bundled dataset
+ */
+export const offlineGeocoder = createOfflineGeocoder();
+
+/**
+ * Checks whether an address came from an offline (approximate) lookup
+ */
+export const isApproximateAddress = (
+  address: Location.LocationGeocodedAddress | null
+): address is ApproximateGeocodedAddress =>
+  !!address &&
+  (address as Partial<ApproximateGeocodedAddress>).approximate === true;
@@ -0,0 +1,101 @@
+import type * as Location from "expo-location";
+import { combinedAccuracy, haversineDistance } from "./geo";
+
+/**
+ * Configuration constants for the plausibility filter
+ */
+const MAX_PLAUSIBLE_SPEED = 100; // 100 m/s (360 km/h) - faster than any ground transport
+const ACCURACY_DEGRADATION_FACTOR = 3; // Rejected when 3x less accurate than the current fix...
+const MIN_ACCURACY_DEGRADATION = 50; // ...and at least 50 meters worse
+const OUTLIER_REFERENCE_MAX_AGE = 2 * 60 * 1000; // 2 minutes - older fixes no longer block worse ones
+const MIN_FIX_INTERVAL = 1; // 1 second - avoids dividing by zero for fixes with the same time
+
+export type FixRejectionReason = "speed" | "accuracy" | "outdated";
+
+/**
+ * Fix dropped by the plausibility filter, reported for debugging
+ */
+export type RejectedFix = {
+  reason: FixRejectionReason;
+  /** Fix that was dropped */
+  fix: Location.LocationObject;
+  /** Last accepted fix it was compared to */
+  reference: Location.LocationObject;
+  /** Speed in m/s needed to travel between the fixes, beyond their accuracy */
+  impliedSpeed: number;
+};
+
+/**
+ * Thresholds for checkFixPlausibility
+ */
+export type PlausibilityOptions = {
+  /**
+   * Maximum speed in m/s a fix may imply relative to the previous one
+   * @default 100 (360 km/h)
+   */
+  maxPlausibleSpeed?: number;
+  /**
+   * How many times less accurate than the current fix a new fix may be
+   * @default 3
+   */
+  outlierAccuracyFactor?: number;
+  /**
+   * Age in milliseconds after which the current fix no longer blocks less accurate ones
+   * @default 2 * 60 * 1000 (2 minutes)
+   */
+  outlierReferenceMaxAge?: number;
+};
+
+/**
+ * Checks whether a fix is plausible given the last accepted one
+ * - Older than the reference: outdated
+ * - Would require moving faster than maxPlausibleSpeed: speed
+ * - Much less accurate while the reference is still recent: accuracy
+ *
+ * @returns Rejection, or null if the fix should be accepted
+ */
+export const checkFixPlausibility = (
+  fix: Location.LocationObject,
+  reference: Location.LocationObject | null,
+  options: PlausibilityOptions = {}
+): RejectedFix | null => {
+  if (!reference) return null;
+
+  const {
+    maxPlausibleSpeed = MAX_PLAUSIBLE_SPEED,
+    outlierAccuracyFactor = ACCURACY_DEGRADATION_FACTOR,
+    outlierReferenceMaxAge = OUTLIER_REFERENCE_MAX_AGE,
+  } = options;
+
+  const elapsed = (fix.timestamp - reference.timestamp) / 1000;
+  // Movement beyond what the two error radii can explain
+  const distance = Math.max(
+    0,
+    haversineDistance(reference.coords, fix.coords) -
+      combinedAccuracy(reference.coords, fix.coords)
+  );
+  const impliedSpeed = distance / Math.max(elapsed, MIN_FIX_INTERVAL);
+  const rejection = (reason: FixRejectionReason): RejectedFix => ({
+    reason,
+    fix,
+    reference,
+    impliedSpeed,
+  });
+
+  if (elapsed < 0) return rejection("outdated");
+  if (impliedSpeed > maxPlausibleSpeed) return rejection("speed");
+
+  const accuracy = fix.coords.accuracy;
+  const referenceAccuracy = reference.coords.accuracy;
+  if (
+    accuracy !== null &&
+    referenceAccuracy !== null &&
+    elapsed * 1000 < outlierReferenceMaxAge &&
+    accuracy > referenceAccuracy * outlierAccuracyFactor &&
+    accuracy - referenceAccuracy >= MIN_ACCURACY_DEGRADATION
+  ) {
+    return rejection("accuracy");
+  }
+
+  return null;
+};
@@ -0,0 +1,119 @@
+import * as Location from "expo-location";
+import { LocationError } from "./errors";
+import { expoLocationSource, type LocationSource } from "./source";
+
+/**
+ * Whether the user granted precise or only approximate location
+ * iOS does not report this through expo-location, so it is "unknown" there
+ */
+export type LocationAccuracyAuthorization =
+  "precise" | "approximate" | "unknown";
+
+/**
+ * Snapshot of the foreground location permission
+ */
+export type LocationPermissionState = {
+  /** Current permission status, null until the first check completes */
+  status: Location.PermissionStatus | null;
+  /** Whether the OS prompt can still be shown */
+  canAskAgain: boolean;
+  /** Precise/approximate accuracy granted by the user */
+  accuracyAuthorization: LocationAccuracyAuthorization;
+};
+
+const INITIAL_PERMISSION_STATE: LocationPermissionState = {
+  status: null,
+  canAskAgain: true,
+  accuracyAuthorization: "unknown",
+};
+
+/**
+ * Last known permission state shared across hook instances
+ */
+let sharedPermissionState: LocationPermissionState = INITIAL_PERMISSION_STATE;
+
+/**
+ * Listeners notified when any caller observes a new permission state
+ */
+const permissionListeners = new Set<(state: LocationPermissionState) => void>();
+
+/**
+ * Converts an expo-location permission response into a permission state
+ */
+const toPermissionState = (
+  response: Location.LocationPermissionResponse
+): LocationPermissionState => {
+  let accuracyAuthorization: LocationAccuracyAuthorization = "unknown";
+  if (response.android?.accuracy === "fine") {
+    accuracyAuthorization = "precise";
+  } else if (response.android?.accuracy === "coarse") {
+    accuracyAuthorization = "approximate";
+  }
+
+  return {
+    status: response.status,
+    canAskAgain: response.canAskAgain,
+    accuracyAuthorization,
+  };
+};
+
+/**
+ * Stores and broadcasts a new permission state
+ */
+export const publishPermissionState = (
+  response: Location.LocationPermissionResponse
+): LocationPermissionState => {
+  const state = toPermissionState(response);
+  sharedPermissionState = state;
+  permissionListeners.forEach((listener) => listener(state));
+  return state;
+};
+
+/**
+ * Returns the last published permission state
+ */
+export const getPermissionState = (): LocationPermissionState =>
+  sharedPermissionState;
+
+/**
+ * Forgets the last published state without notifying listeners (for tests)
+ */
+export const resetPermissionState = (): void => {
+  sharedPermissionState = INITIAL_PERMISSION_STATE;
+};
+
+/**
+ * Registers a listener for permission state changes
+ * @returns Function that removes the listener
+ */
+export const subscribeToPermissionState = (
+  listener: (state: LocationPermissionState) => void
+): (() => void) => {
+  permissionListeners.add(listener);
+  return () => {
+    permissionListeners.delete(listener);
+  };
+};
+
+/**
+ * Ensures foreground permission is granted, optionally showing the OS prompt
+ * Shares the result with useLocationPermission instances
+ * @param request - Whether the OS prompt may be shown
+ * @param source - Where to check the permission, defaults to expo-location
+ * @throws LocationError with code PERMISSION_DENIED or PERMISSION_BLOCKED
+ */
+export const ensureForegroundPermission = async (
+  request: boolean,
+  source: LocationSource = expoLocationSource
+): Promise<void> => {
+  const response = request
+    ? await source.requestForegroundPermissionsAsync()
+    : await source.getForegroundPermissionsAsync();
+  publishPermissionState(response);
+
+  if (response.status !== "granted") {
+    throw new LocationError(
+      response.canAskAgain ? "PERMISSION_DENIED" : "PERMISSION_BLOCKED"
+    );
+  }
+};
@@ -0,0 +1,376 @@
+import * as Location from "expo-location";
+import {
+  EARTH_RADIUS_METERS,
+  haversineDistance,
+  initialBearing,
+  toRadians,
+} from "./geo";
+import type { LocationSource } from "./source";
+import { parseTrack, type TrackInputPoint } from "./tracks";
+
+/**
+ * Configuration constants for track replay
+ */
+const REPLAY_DEFAULT_SPEED = 1.4; // 1.4 m/s (walking pace) for tracks without times
+const REPLAY_WATCH_INTERVAL = 1000; // 1 second between watch updates
+const REPLAY_JITTER_FACTOR = 0.5; // Fixes are offset by up to half their accuracy radius
+const REPLAY_HEADING_INTERVAL = 100; // 100 ms between compass updates, like a device sensor
+const REPLAY_HEADING_ACCURACY = 3; // Reported as a fully calibrated compass
+
+/**
+ * Accuracy radius in meters reported for each requested accuracy level
+ * Low levels are much worse so the refinement path has something to refine
+ */
+const REPLAY_ACCURACY_BY_LEVEL: Record<Location.LocationAccuracy, number> = {
+  [Location.LocationAccuracy.Lowest]: 1000,
+  [Location.LocationAccuracy.Low]: 500,
+  [Location.LocationAccuracy.Balanced]: 65,
+  [Location.LocationAccuracy.High]: 10,
+  [Location.LocationAccuracy.Highest]: 5,
+  [Location.LocationAccuracy.BestForNavigation]: 3,
+};
+
+/**
+ * Options for createReplayLocationSource
+ */
+export type ReplayLocationSourceOptions = {
+  /** GPX or GeoJSON text, or already parsed points */
+  track: string | TrackInputPoint[];
+  /**
+   * Playback rate relative to the recorded times (2 = twice as fast)
+   * @default 1
+   */
+  speedMultiplier?: number;
+  /**
+   * Whether playback starts immediately
+   * @default true
+   */
+  autoPlay?: boolean;
+  /**
+   * Whether to start over after the last point
+   * @default false
+   */
+  loop?: boolean;
+  /**
+   * Speed in m/s used to derive times when the track has none
+   * @default 1.4 (walking pace)
+   */
+  defaultSpeed?: number;
+  /**
+   * Fixed accuracy radius in meters for every fix
+   * @default depends on the requested accuracy level (Low 500m ... High 10m)
+   */
+  accuracy?: number;
+  /**
+   * Whether to offset fixes within their accuracy radius
+   * Offsets are pseudo-random but repeat for the same seed
+   * @default true
+   */
+  jitter?: boolean;
+  /**
+   * Seed for the jitter sequence
+   * @default 1
+   */
+  seed?: number;
+};
+
+/**
+ * Playback position and settings
+ */
+export type ReplayState = {
+  playing: boolean;
+  /** Track time in milliseconds since the first point */
+  position: number;
+  /** Track length in milliseconds */
+  duration: number;
+  speedMultiplier: number;
+};
+
+/**
+ * Location source that replays a recorded track, with playback controls
+ */
+export type ReplayLocationSource = LocationSource & {
+  play: () => void;
+  pause: () => void;
+  /** Moves playback to a track time in milliseconds (clamped to the track) */
+  seek: (position: number) => void;
+  setSpeedMultiplier: (speedMultiplier: number) => void;
+  getState: () => ReplayState;
+};
+
+/**
+ * Small deterministic PRNG (mulberry32) so jitter is reproducible
+ */
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Track times relative to the first point
+ * Uses the recorded times when every point has one, otherwise a constant speed
+ */
+const buildTimeline = (
+  points: TrackInputPoint[],
+  defaultSpeed: number
+): number[] => {
+  const first = points[0]?.timestamp;
+  const hasTimes =
+    typeof first === "number" &&
+    points.every(
+      (point, index) =>
+        typeof point.timestamp === "number" &&
+        (index === 0 ||
+          point.timestamp >= (points[index - 1].timestamp as number))
+    );
+
+  if (hasTimes) {
+    return points.map((point) => (point.timestamp as number) - first);
+  }
+
+  let elapsed = 0;
+  return points.map((point, index) => {
+    if (index > 0) {
+      elapsed +=
+        (haversineDistance(points[index - 1], point) / defaultSpeed) * 1000;
+    }
+    return elapsed;
+  });
+};
+
+/**
+ * Creates a development source that replays a GPX or GeoJSON track in place of the device
+ * Fixes are interpolated along the track with synthetic accuracy, speed and heading,
+ * so refinement and significant-change logic can be exercised reproducibly
+ *
+ * @example
+ * ```tsx
+ * const replay = createReplayLocationSource({ track: gpxText, speedMultiplier: 4 });
+ *
+ * <LocationProvider source={replay}>
+ *   <App />
+ * </LocationProvider>
+ *
+ * replay.pause();
+ * replay.seek(5 * 60 * 1000);
+ * ```
+ */
+export const createReplayLocationSource = (
+  options: ReplayLocationSourceOptions
+): ReplayLocationSource => {
+  const {
+    autoPlay = true,
+    loop = false,
+    defaultSpeed = REPLAY_DEFAULT_SPEED,
+    accuracy,
+    jitter = true,
+    seed = 1,
+  } = options;
+
+  const points =
+    typeof options.track === "string"
+      ? parseTrack(options.track)
+      : options.track;
+  if (points.length === 0) {
+    throw new Error("Replay track has no points");
+  }
+
+  const timeline = buildTimeline(points, defaultSpeed);
+  const duration = timeline[timeline.length - 1];
+  const random = createRandom(seed);
+  const watchers = new Set<() => void>();
+
+  let speedMultiplier = options.speedMultiplier ?? 1;
+  let playing = autoPlay;
+  // Track time at the last play, pause, seek or speed change
+  let anchorPosition = 0;
+  let anchorTime = Date.now();
+
+  const getPosition = (): number => {
+    if (!playing) return anchorPosition;
+
+    const position =
+      anchorPosition + (Date.now() - anchorTime) * speedMultiplier;
+    if (loop && duration > 0) return position % duration;
+    if (position >= duration) {
+      // Reached the end - stop so watchers go quiet like a stationary device
+      playing = false;
+      anchorPosition = duration;
+      return duration;
+    }
+    return position;
+  };
+
+  const reanchor = (position: number): void => {
+    anchorPosition = Math.min(Math.max(0, position), duration);
+    anchorTime = Date.now();
+  };
+
+  /**
+   * Track segment around a position and how far along it the position is
+   */
+  const locate = (position: number) => {
+    // Last point at or before the position
+    let index = 0;
+    while (index < timeline.length - 2 && timeline[index + 1] <= position) {
+      index++;
+    }
+    const from = points[index];
+    const to = points[Math.min(index + 1, points.length - 1)];
+    const span = timeline[index + 1] - timeline[index];
+    const fraction =
+      span > 0
+        ? Math.min(1, Math.max(0, (position - timeline[index]) / span))
+        : 0;
+    return { from, to, span, fraction };
+  };
+
+  /**
+   * Direction of travel at the current position
+   */
+  const getHeading = (): number | null => {
+    const { from, to } = locate(getPosition());
+    return (
+      from.heading ??
+      (from !== to && haversineDistance(from, to) > 0
+        ? initialBearing(from, to)
+        : null)
+    );
+  };
+
+  /**
+   * Interpolates the fix at the current position
+   */
+  const createFix = (
+    level: Location.LocationAccuracy = Location.LocationAccuracy.Balanced
+  ): Location.LocationObject => {
+    const { from, to, span, fraction } = locate(getPosition());
+
+    const latitude = from.latitude + (to.latitude - from.latitude) * fraction;
+    const longitude =
+      from.longitude + (to.longitude - from.longitude) * fraction;
+    const altitude =
+      from.altitude != null && to.altitude != null
+        ? from.altitude + (to.altitude - from.altitude) * fraction
+        : (from.altitude ?? null);
+
+    const distance = from === to ? 0 : haversineDistance(from, to);
+    const segmentSpeed = span > 0 ? distance / (span / 1000) : 0;
+    const fixAccuracy =
+      accuracy ??
+      REPLAY_ACCURACY_BY_LEVEL[level] ??
+      REPLAY_ACCURACY_BY_LEVEL[Location.LocationAccuracy.Balanced];
+
+    // Offset within the accuracy radius in a pseudo-random direction
+    let jitteredLatitude = latitude;
+    let jitteredLongitude = longitude;
+    if (jitter) {
+      const offset = random() * fixAccuracy * REPLAY_JITTER_FACTOR;
+      const direction = random() * 2 * Math.PI;
+      const angularOffset = offset / EARTH_RADIUS_METERS;
+      jitteredLatitude += (angularOffset * Math.cos(direction) * 180) / Math.PI;
+      jitteredLongitude +=
+        (angularOffset * Math.sin(direction) * 180) /
+        Math.PI /
+        Math.cos(toRadians(latitude));
+    }
+
+    return {
+      coords: {
+        latitude: jitteredLatitude,
+        longitude: jitteredLongitude,
+        altitude,
+        accuracy: fixAccuracy,
+        altitudeAccuracy: altitude !== null ? fixAccuracy : null,
+        // Stationary while paused, like a device that stopped moving
+        speed: playing ? (from.speed ?? segmentSpeed) : 0,
+        heading: getHeading(),
+      },
+      timestamp: Date.now(),
+    };
+  };
+
+  const notifyWatchers = (): void => {
+    watchers.forEach((notify) => notify());
+  };
+
+  const grantedPermission: Location.LocationPermissionResponse = {
+    status: Location.PermissionStatus.GRANTED,
+    granted: true,
+    canAskAgain: true,
+    expires: "never",
+  };
+
+  return {
+    name: "replay",
+    play: () => {
+      if (playing) return;
+      // Start over when playing again after the end
+      reanchor(anchorPosition >= duration ? 0 : anchorPosition);
+      playing = true;
+    },
+    pause: () => {
+      reanchor(getPosition());
+      playing = false;
+    },
+    seek: (position) => {
+      reanchor(position);
+      notifyWatchers();
+    },
+    setSpeedMultiplier: (nextSpeedMultiplier) => {
+      reanchor(getPosition());
+      speedMultiplier = nextSpeedMultiplier;
+    },
+    getState: () => ({
+      position: getPosition(),
+      playing,
+      duration,
+      speedMultiplier,
+    }),
+    requestForegroundPermissionsAsync: async () => grantedPermission,
+    getForegroundPermissionsAsync: async () => grantedPermission,
+    hasServicesEnabledAsync: async () => true,
+    getLastKnownPositionAsync: async () => createFix(),
+    getCurrentPositionAsync: async (positionOptions) =>
+      createFix(positionOptions?.accuracy),
+    watchPositionAsync: async (watchOptions, callback) => {
+      const notify = () => callback(createFix(watchOptions.accuracy));
+      const intervalId = setInterval(() => {
+        // Only a moving replay produces new fixes (the last one lands on the final point)
+        if (playing) notify();
+      }, watchOptions.timeInterval ?? REPLAY_WATCH_INTERVAL);
+
+      watchers.add(notify);
+      return {
+        remove: () => {
+          clearInterval(intervalId);
+          watchers.delete(notify);
+        },
+      };
+    },
+    watchHeadingAsync: async (callback) => {
+      // The device faces the direction of travel; it keeps the last heading while paused
+      let lastHeading: number | null = null;
+      const intervalId = setInterval(() => {
+        const heading = getHeading();
+        if (playing && heading !== null) lastHeading = heading;
+        if (lastHeading === null) return;
+        callback({
+          trueHeading: lastHeading,
+          magHeading: lastHeading,
+          accuracy: REPLAY_HEADING_ACCURACY,
+        });
+      }, REPLAY_HEADING_INTERVAL);
+
+      return {
+        remove: () => clearInterval(intervalId),
+      };
+    },
+  };
+};
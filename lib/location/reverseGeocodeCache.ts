@@ -0,0 +1,306 @@
+import type * as Location from "expo-location";
+import { openStoredValue, sealStoredValue } from "./encryption";
+import { LocationError } from "./errors";
+import type { Coordinates } from "./geo";
+import type { GeocoderProvider } from "./geocoder";
+import {
+  estimateJsonSize,
+  LruCache,
+  type LruCacheOptions,
+  type LruCacheStats,
+} from "./lruCache";
+import { isApproximateAddress } from "./offlineGeocoder";
+import { globalStorageScope, type LocationStorageScope } from "./storage";
+
+/**
+ * Configuration constants for the reverse geocoding cache
+ */
+const REVERSE_GEOCODE_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+const REVERSE_GEOCODE_CACHE_MAX_SIZE = 100; // Evict least recently used beyond this
+const REVERSE_GEOCODE_CACHE_MAX_BYTES = 256 * 1024; // ~256 KB of addresses
+const GEOCODE_STORAGE_KEY = "reverse_geocode_cache"; // Key for persisted geocoding cache (namespaced)
+const PERSISTED_GEOCODE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days - addresses rarely change
+const PERSISTED_GEOCODE_MAX_ENTRIES = 50; // Most recent addresses kept across launches
+const GEOCODE_PERSIST_DELAY = 2000; // 2 seconds - batches writes of new addresses
+
+type GeocodedAddress = Location.LocationGeocodedAddress;
+
+/**
+ * Reverse geocode cache limits that can be tuned at runtime
+ */
+export type ReverseGeocodeCacheConfig = Partial<
+  Pick<LruCacheOptions<GeocodedAddress | null>, "maxSize" | "ttl" | "maxBytes">
+> & {
+  /** How long a persisted address stays valid after it was resolved (ms) */
+  persistedTTL?: number;
+  /** Maximum number of addresses kept in storage */
+  persistedMaxEntries?: number;
+};
+
+/**
+ * Persisted geocoding cache entry
+ */
+type PersistedGeocodeEntry = {
+  address: GeocodedAddress;
+  timestamp: number;
+};
+
+/**
+ * Creates a cache key from coordinates (optimized)
+ * Uses 4 decimal places precision (~11m accuracy)
+ */
+export const createCacheKey = (coords: Coordinates): string => {
+  const lat = Math.round(coords.latitude * 10000) / 10000;
+  const lng = Math.round(coords.longitude * 10000) / 10000;
+  return `${lat},${lng}`;
+};
+
+/**
+ * Reverse geocoding cache backed by a bounded LRU and persistent storage
+ * Prevents duplicate calls for the same coordinates (both cached and concurrent)
+ */
+export class ReverseGeocodeCache {
+  private storage: LocationStorageScope;
+  /** Bounded LRU cache to avoid duplicate calls for same coordinates */
+  private cache = new LruCache<string, GeocodedAddress | null>({
+    maxSize: REVERSE_GEOCODE_CACHE_MAX_SIZE,
+    ttl: REVERSE_GEOCODE_CACHE_TTL,
+    maxBytes: REVERSE_GEOCODE_CACHE_MAX_BYTES,
+    sizeOf: estimateJsonSize,
+  });
+  /** Pending requests to prevent duplicate concurrent calls */
+  private pending = new Map<string, Promise<GeocodedAddress | null>>();
+  /** Addresses to persist, oldest first (mirrors storage plus pending writes) */
+  private persistedEntries = new Map<string, PersistedGeocodeEntry>();
+  private persistence = {
+    ttl: PERSISTED_GEOCODE_TTL,
+    maxEntries: PERSISTED_GEOCODE_MAX_ENTRIES,
+  };
+  private hydrationPromise: Promise<void> | null = null;
+  private persistTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param storage - Where addresses are persisted, defaults to the registered storage
+   */
+  constructor(storage: LocationStorageScope = globalStorageScope) {
+    this.storage = storage;
+  }
+
+  /**
+   * Updates the cache limits
+   * Shrinking a limit evicts least recently used entries immediately
+   */
+  configure(config: ReverseGeocodeCacheConfig): void {
+    const { persistedTTL, persistedMaxEntries, ...cacheConfig } = config;
+    if (persistedTTL !== undefined) {
+      this.persistence.ttl = persistedTTL;
+    }
+    if (persistedMaxEntries !== undefined) {
+      this.persistence.maxEntries = persistedMaxEntries;
+    }
+    this.cache.configure(cacheConfig);
+  }
+
+  /**
+   * Returns hit/miss/eviction counters for tuning the cache limits
+   */
+  stats(): LruCacheStats {
+    return this.cache.stats();
+  }
+
+  /**
+   * Drops every cached, pending and unsaved address and resets the stats
+   * Storage is left untouched, so addresses are hydrated again on next use
+   */
+  clear(): void {
+    if (this.persistTimeoutId) {
+      clearTimeout(this.persistTimeoutId);
+      this.persistTimeoutId = null;
+    }
+    this.cache.clear();
+    this.cache.resetStats();
+    this.pending.clear();
+    this.persistedEntries.clear();
+    this.hydrationPromise = null;
+  }
+
+  /**
+   * Reverse geocodes coordinates, reusing cached and in-flight results
+   * @param coords - Coordinates to reverse geocode
+   * @param provider - Geocoder to use on a cache miss
+   * @param signal - AbortSignal to cancel the request
+   * @param skipCache - Ignores cached results (in-flight requests are still reused)
+   * @returns Geocoded address, or null if aborted or no address was found
+   * @throws LocationError with code GEOCODE_FAILED if the geocoder fails
+   */
+  async reverseGeocode(
+    coords: Coordinates,
+    provider: GeocoderProvider,
+    signal?: AbortSignal,
+    skipCache = false
+  ): Promise<GeocodedAddress | null> {
+    if (signal?.aborted) return null;
+
+    const cacheKey = createCacheKey(coords);
+
+    // Make addresses from previous launches available before the lookup
+    await this.hydrate();
+    if (signal?.aborted) return null;
+
+    // Return cached result if valid (expired entries count as misses)
+    if (!skipCache) {
+      const cached = this.cache.get(cacheKey);
+      if (cached !== undefined) return cached;
+    }
+
+    // Return existing pending request if any (prevents duplicate concurrent calls)
+    const pendingRequest = this.pending.get(cacheKey);
+    if (pendingRequest) {
+      // Check if signal was aborted before returning pending request
+      if (signal?.aborted) return null;
+      return pendingRequest;
+    }
+
+    // Create new request
+    const requestPromise = (async () => {
+      try {
+        if (signal?.aborted) return null;
+
+        const address = await provider.reverseGeocode(coords, signal);
+
+        if (signal?.aborted) return null;
+
+        // LRU cache timestamps the entry and evicts beyond its limits
+        const result = address ?? null;
+        this.cache.set(cacheKey, result);
+        this.remember(cacheKey, result);
+
+        return result;
+      } catch (error) {
+        if (signal?.aborted) return null;
+        if (__DEV__) {
+          console.warn("Reverse geocoding failed:", error);
+        }
+        throw new LocationError("GEOCODE_FAILED", error);
+      } finally {
+        // Remove from pending requests
+        this.pending.delete(cacheKey);
+      }
+    })();
+
+    // Store pending request after creation to ensure it's fully initialized
+    this.pending.set(cacheKey, requestPromise);
+
+    return requestPromise;
+  }
+
+  /**
+   * Loads persisted addresses into the in-memory cache once
+   * Expired entries are skipped; entries already in memory are kept
+   */
+  hydrate(): Promise<void> {
+    if (this.hydrationPromise) return this.hydrationPromise;
+
+    this.hydrationPromise = (async () => {
+      try {
+        const stored = await this.storage.adapter.getItem(
+          this.storage.namespacedKey(GEOCODE_STORAGE_KEY)
+        );
+        if (!stored) return;
+
+        const plaintext = await openStoredValue(stored);
+        if (!plaintext) return;
+
+        const parsed = JSON.parse(plaintext) as Record<
+          string,
+          PersistedGeocodeEntry
+        >;
+        const now = Date.now();
+
+        // Oldest first so the most recent addresses end up most recently used
+        const entries = Object.entries(parsed)
+          .filter(
+            ([, entry]) =>
+              entry &&
+              entry.address &&
+              typeof entry.timestamp === "number" &&
+              now - entry.timestamp < this.persistence.ttl
+          )
+          .sort(([, a], [, b]) => a.timestamp - b.timestamp);
+
+        for (const [key, entry] of entries) {
+          if (!this.persistedEntries.has(key)) {
+            this.persistedEntries.set(key, entry);
+          }
+          if (!this.cache.has(key)) {
+            this.cache.set(
+              key,
+              entry.address,
+              entry.timestamp,
+              this.persistence.ttl
+            );
+          }
+        }
+        this.prunePersistedEntries();
+      } catch {
+        // Ignore errors - corrupted or invalid data
+      }
+    })();
+
+    return this.hydrationPromise;
+  }
+
+  /**
+   * Drops persisted addresses that expired or exceed the size cap (oldest first)
+   */
+  private prunePersistedEntries(): void {
+    const now = Date.now();
+    for (const [key, entry] of Array.from(this.persistedEntries.entries())) {
+      if (
+        now - entry.timestamp >= this.persistence.ttl ||
+        this.persistedEntries.size > this.persistence.maxEntries
+      ) {
+        this.persistedEntries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Batched write of the persisted geocoding cache
+   */
+  private schedulePersist(): void {
+    if (this.persistTimeoutId) return;
+
+    this.persistTimeoutId = setTimeout(() => {
+      this.persistTimeoutId = null;
+      this.prunePersistedEntries();
+
+      const payload = JSON.stringify(
+        Object.fromEntries(this.persistedEntries.entries())
+      );
+      void sealStoredValue(payload)
+        .then((value) =>
+          this.storage.adapter.setItem(
+            this.storage.namespacedKey(GEOCODE_STORAGE_KEY),
+            value
+          )
+        )
+        .catch(() => {
+          // Ignore errors - persistence is optional
+        });
+    }, GEOCODE_PERSIST_DELAY);
+  }
+
+  /**
+   * Records a resolved address for persistence
+   * Approximate (offline) results are not persisted so a precise address replaces them next launch
+   */
+  private remember(key: string, address: GeocodedAddress | null): void {
+    if (!address || isApproximateAddress(address)) return;
+
+    // Re-insert to keep insertion order oldest first
+    this.persistedEntries.delete(key);
+    this.persistedEntries.set(key, { address, timestamp: Date.now() });
+    this.schedulePersist();
+  }
+}
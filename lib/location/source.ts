@@ -0,0 +1,45 @@
+import * as Location from "expo-location";
+
+/**
+ * Where permissions and position fixes come from
+ * Mirrors the expo-location functions the store uses, so fakes and replays
+ * can stand in for the device
+ */
+export type LocationSource = {
+  /** Identifier used in logs */
+  name: string;
+  requestForegroundPermissionsAsync: () => Promise<Location.LocationPermissionResponse>;
+  getForegroundPermissionsAsync: () => Promise<Location.LocationPermissionResponse>;
+  hasServicesEnabledAsync: () => Promise<boolean>;
+  getLastKnownPositionAsync: (
+    options?: Location.LocationLastKnownOptions
+  ) => Promise<Location.LocationObject | null>;
+  getCurrentPositionAsync: (
+    options?: Location.LocationOptions
+  ) => Promise<Location.LocationObject>;
+  watchPositionAsync: (
+    options: Location.LocationOptions,
+    callback: Location.LocationCallback
+  ) => Promise<Location.LocationSubscription>;
+  watchHeadingAsync: (
+    callback: Location.LocationHeadingCallback
+  ) => Promise<Location.LocationSubscription>;
+};
+
+/**
+ * Device location through expo-location
+ */
+export const expoLocationSource: LocationSource = {
+  name: "expo-location",
+  requestForegroundPermissionsAsync: () =>
+    Location.requestForegroundPermissionsAsync(),
+  getForegroundPermissionsAsync: () => Location.getForegroundPermissionsAsync(),
+  hasServicesEnabledAsync: () => Location.hasServicesEnabledAsync(),
+  getLastKnownPositionAsync: (options) =>
+    Location.getLastKnownPositionAsync(options),
+  getCurrentPositionAsync: (options) =>
+    Location.getCurrentPositionAsync(options),
+  watchPositionAsync: (options, callback) =>
+    Location.watchPositionAsync(options, callback),
+  watchHeadingAsync: (callback) => Location.watchHeadingAsync(callback),
+};
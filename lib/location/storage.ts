@@ -0,0 +1,168 @@
+/**
+ * Key-value storage used to persist location data
+ * Matches the AsyncStorage API so it can be passed directly
+ */
+export type LocationStorageAdapter = {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+};
+
+/**
+ * Options for registering a storage adapter
+ */
+export type LocationStorageOptions = {
+  /**
+   * Prefix added to every key to avoid collisions with other libraries
+   * @default "expo-location-hook"
+   */
+  namespace?: string;
+};
+
+const DEFAULT_NAMESPACE = "expo-location-hook";
+
+/**
+ * Adapter that stores nothing, disabling persistence
+ */
+export const noopStorageAdapter: LocationStorageAdapter = {
+  getItem: async () => null,
+  setItem: async () => {},
+  removeItem: async () => {},
+};
+
+/**
+ * In-memory adapter, useful for tests or to keep data only for the session
+ * @param initial - Optional initial contents (keys must include the namespace)
+ */
+export const createMemoryStorageAdapter = (
+  initial: Record<string, string> = {}
+): LocationStorageAdapter & { store: Map<string, string> } => {
+  const store = new Map(Object.entries(initial));
+
+  return {
+    store,
+    getItem: async (key) => store.get(key) ?? null,
+    setItem: async (key, value) => {
+      store.set(key, value);
+    },
+    removeItem: async (key) => {
+      store.delete(key);
+    },
+  };
+};
+
+/**
+ * Adapter backed by @react-native-async-storage/async-storage
+ * Pass the module to avoid a runtime lookup; otherwise it is resolved lazily on first use
+ * and persistence is disabled if the package is not installed
+ */
+export const createAsyncStorageAdapter = (
+  asyncStorage?: LocationStorageAdapter
+): LocationStorageAdapter => {
+  let resolved: LocationStorageAdapter | null = asyncStorage ?? null;
+
+  const resolve = (): LocationStorageAdapter => {
+    if (resolved) return resolved;
+
+    try {
+      // Dynamic import to avoid breaking if AsyncStorage is not installed
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const storage = require("@react-native-async-storage/async-storage");
+      resolved = storage.default || storage;
+    } catch {
+      // AsyncStorage not available, persistence will be disabled
+      resolved = noopStorageAdapter;
+    }
+    return resolved ?? noopStorageAdapter;
+  };
+
+  return {
+    getItem: (key) => resolve().getItem(key),
+    setItem: (key, value) => resolve().setItem(key, value),
+    removeItem: (key) => resolve().removeItem(key),
+  };
+};
+
+/**
+ * Registered adapter and namespace shared by every hook instance
+ */
+let registeredAdapter: LocationStorageAdapter = createAsyncStorageAdapter();
+let storageNamespace = DEFAULT_NAMESPACE;
+
+/**
+ * Registers the storage used for persistence
+ * Call once at startup, before the first useLocation mounts
+ *
+ * @example
+ * ```ts
+ * const mmkv = new MMKV();
+ * setLocationStorage({
+ *   getItem: async (key) => mmkv.getString(key) ?? null,
+ *   setItem: async (key, value) => mmkv.set(key, value),
+ *   removeItem: async (key) => mmkv.delete(key),
+ * });
+ * ```
+ */
+export const setLocationStorage = (
+  adapter: LocationStorageAdapter,
+  options: LocationStorageOptions = {}
+): void => {
+  registeredAdapter = adapter;
+  storageNamespace = options.namespace ?? DEFAULT_NAMESPACE;
+};
+
+/**
+ * Returns the registered storage adapter
+ */
+export const getLocationStorage = (): LocationStorageAdapter =>
+  registeredAdapter;
+
+/**
+ * Prefixes a key with the registered namespace
+ */
+export const namespacedKey = (key: string): string =>
+  `${storageNamespace}:${key}`;
+
+/**
+ * Storage adapter paired with the namespace its keys are written under
+ */
+export type LocationStorageScope = {
+  readonly adapter: LocationStorageAdapter;
+  /** Prefixes a key with the scope namespace */
+  namespacedKey: (key: string) => string;
+  /**
+   * Whether un-namespaced keys written by earlier versions belong to this scope
+   * Only the default scope migrates them, so a namespaced subtree never inherits its data
+   */
+  readonly ownsLegacyKeys: boolean;
+};
+
+/**
+ * Scope that follows whatever is registered with setLocationStorage
+ */
+export const globalStorageScope: LocationStorageScope = {
+  get adapter() {
+    return registeredAdapter;
+  },
+  namespacedKey,
+  ownsLegacyKeys: true,
+};
+
+/**
+ * Creates a scope with its own namespace, optionally for an adapter that is not registered globally
+ * Without an adapter the scope follows the one registered with setLocationStorage
+ * Used by LocationProvider to isolate a subtree's persisted data
+ */
+export const createStorageScope = (
+  adapter: LocationStorageAdapter | undefined,
+  options: LocationStorageOptions = {}
+): LocationStorageScope => {
+  const namespace = options.namespace ?? DEFAULT_NAMESPACE;
+  return {
+    get adapter() {
+      return adapter ?? registeredAdapter;
+    },
+    namespacedKey: (key) => `${namespace}:${key}`,
+    ownsLegacyKeys: namespace === DEFAULT_NAMESPACE,
+  };
+};
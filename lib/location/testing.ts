@@ -0,0 +1,481 @@
+import * as Location from "expo-location";
+import { setLocationEncryption } from "./encryption";
+import type { Coordinates } from "./geo";
+import {
+  chainGeocoders,
+  platformGeocoder,
+  setGeocoderProvider,
+  type GeocoderProvider,
+} from "./geocoder";
+import { defaultLocationStore, LocationStore } from "./locationStore";
+import { offlineGeocoder } from "./offlineGeocoder";
+import { resetPermissionState } from "./permission";
+import type { LocationSource } from "./source";
+import {
+  createAsyncStorageAdapter,
+  createMemoryStorageAdapter,
+  setLocationStorage,
+} from "./storage";
+
+/**
+ * Scripted outcome of a fake call
+ * `delay` postpones it by that many milliseconds (works with fake timers)
+ */
+export type FakeResponse<T> =
+  { value: T; delay?: number } | { error: unknown; delay?: number };
+
+/**
+ * Permission outcome reported by the fake source
+ * "blocked" is a denial with canAskAgain set to false
+ */
+export type FakePermissionOutcome =
+  "granted" | "denied" | "blocked" | "undetermined";
+
+/**
+ * Options for createFakeLocationSource
+ */
+export type FakeLocationSourceOptions = {
+  /**
+   * Permission status reported by both permission calls
+   * @default "granted"
+   */
+  permission?: FakePermissionOutcome;
+  /**
+   * Outcome of the OS prompt while the permission is "undetermined"
+   * @default "granted"
+   */
+  promptOutcome?: FakePermissionOutcome;
+  /**
+   * Android precise/approximate authorization reported once granted
+   * @default "fine"
+   */
+  accuracy?: "fine" | "coarse";
+  /**
+   * Whether device location services are on
+   * @default true
+   */
+  servicesEnabled?: boolean;
+  /** Responses for getLastKnownPositionAsync, consumed in order */
+  lastKnown?: FakeResponse<Location.LocationObject | null>[];
+  /** Responses for getCurrentPositionAsync, consumed in order */
+  currentPosition?: FakeResponse<Location.LocationObject>[];
+  /**
+   * Whether unscripted position calls stay pending until resolved with resolveNext
+   * Otherwise last known resolves to null and current position rejects
+   * @default false
+   */
+  manual?: boolean;
+};
+
+/**
+ * Options for createFakeGeocoder
+ */
+export type FakeGeocoderOptions = {
+  /**
+   * Identifier used in logs
+   * @default "fake"
+   */
+  name?: string;
+  /** Responses for reverseGeocode, consumed in order */
+  responses?: FakeResponse<Location.LocationGeocodedAddress | null>[];
+  /**
+   * Whether unscripted lookups stay pending until resolved with resolveNext
+   * Otherwise they resolve to null
+   * @default false
+   */
+  manual?: boolean;
+};
+
+const MICROTASK_TURNS = 20; // Enough for the longest await chain in the store
+
+/**
+ * Lets pending promise callbacks run without advancing timers
+ */
+export const flushMicrotasks = async (turns = MICROTASK_TURNS) => {
+  for (let i = 0; i < turns; i++) {
+    await Promise.resolve();
+  }
+};
+
+const settle = <T>(response: FakeResponse<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const finish = () => {
+      if ("error" in response) {
+        reject(response.error);
+      } else {
+        resolve(response.value);
+      }
+    };
+    if (response.delay) {
+      setTimeout(finish, response.delay);
+    } else {
+      finish();
+    }
+  });
+
+type PendingCall<T> = {
+  resolve: (value: T) => void;
+  reject: (error: unknown) => void;
+};
+
+/**
+ * Calls to one fake function: answered from a script, a fallback, or by the test
+ */
+export class FakeCallQueue<T, A> {
+  /** Arguments of every call, oldest first */
+  readonly calls: A[] = [];
+  private responses: FakeResponse<T>[];
+  private fallback: (() => FakeResponse<T>) | null;
+  private pending: PendingCall<T>[] = [];
+  private waiters: Array<() => void> = [];
+
+  /**
+   * @param responses - Scripted responses, consumed in order
+   * @param fallback - Response once the script runs out, null leaves calls pending
+   */
+  constructor(
+    responses: FakeResponse<T>[] = [],
+    fallback: (() => FakeResponse<T>) | null = null
+  ) {
+    this.responses = [...responses];
+    this.fallback = fallback;
+  }
+
+  /**
+   * Number of calls waiting for resolveNext or rejectNext
+   */
+  get pendingCount(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Appends responses to the script
+   */
+  script(...responses: FakeResponse<T>[]): void {
+    this.responses.push(...responses);
+  }
+
+  /**
+   * Records a call and answers it from the script when possible
+   */
+  call(args: A): Promise<T> {
+    this.calls.push(args);
+
+    const response = this.responses.shift() ?? this.fallback?.();
+    if (response) return settle(response);
+
+    return new Promise<T>((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      this.waiters.splice(0).forEach((notify) => notify());
+    });
+  }
+
+  /**
+   * Resolves once at least one call is pending
+   */
+  waitForCall(): Promise<void> {
+    if (this.pending.length > 0) return Promise.resolve();
+    return new Promise<void>((resolve) => {
+      this.waiters.push(resolve);
+    });
+  }
+
+  /**
+   * Waits for the next pending call, answers it and lets the result propagate
+   */
+  async resolveNext(value: T): Promise<void> {
+    await this.waitForCall();
+    this.pending.shift()?.resolve(value);
+    await flushMicrotasks();
+  }
+
+  /**
+   * Waits for the next pending call, fails it and lets the error propagate
+   */
+  async rejectNext(error: unknown): Promise<void> {
+    await this.waitForCall();
+    this.pending.shift()?.reject(error);
+    await flushMicrotasks();
+  }
+}
+
+/**
+ * Builds a LocationObject, filling unspecified fields with null
+ */
+export const createFix = (
+  coords: Coordinates & Partial<Location.LocationObjectCoords>,
+  timestamp = Date.now()
+): Location.LocationObject => ({
+  coords: {
+    altitude: null,
+    accuracy: null,
+    altitudeAccuracy: null,
+    heading: null,
+    speed: null,
+    ...coords,
+  },
+  timestamp,
+});
+
+/**
+ * Builds a geocoded address, filling unspecified fields with null
+ */
+export const createAddress = (
+  fields: Partial<Location.LocationGeocodedAddress> = {}
+): Location.LocationGeocodedAddress => ({
+  city: null,
+  district: null,
+  streetNumber: null,
+  street: null,
+  region: null,
+  subregion: null,
+  country: null,
+  postalCode: null,
+  name: null,
+  isoCountryCode: null,
+  timezone: null,
+  formattedAddress: null,
+  ...fields,
+});
+
+const toPermissionResponse = (
+  outcome: FakePermissionOutcome,
+  accuracy: "fine" | "coarse"
+): Location.LocationPermissionResponse => {
+  let status = Location.PermissionStatus.DENIED;
+  if (outcome === "granted") status = Location.PermissionStatus.GRANTED;
+  if (outcome === "undetermined") {
+    status = Location.PermissionStatus.UNDETERMINED;
+  }
+
+  return {
+    status,
+    granted: outcome === "granted",
+    canAskAgain: outcome !== "blocked",
+    expires: "never",
+    android: { accuracy: outcome === "granted" ? accuracy : "none" },
+  };
+};
+
+/**
+ * Location source driven by a script instead of the device
+ */
+export type FakeLocationSource = LocationSource & {
+  lastKnown: FakeCallQueue<
+    Location.LocationObject | null,
+    Location.LocationLastKnownOptions | undefined
+  >;
+  currentPosition: FakeCallQueue<
+    Location.LocationObject,
+    Location.LocationOptions | undefined
+  >;
+  /** Number of times the OS prompt was requested */
+  readonly permissionRequests: number;
+  /** Number of active watchPositionAsync subscriptions */
+  readonly watcherCount: number;
+  /** Number of active watchHeadingAsync subscriptions */
+  readonly headingWatcherCount: number;
+  setPermission: (outcome: FakePermissionOutcome) => void;
+  setServicesEnabled: (enabled: boolean) => void;
+  /** Delivers a fix to every active watcher */
+  emit: (location: Location.LocationObject) => Promise<void>;
+  /** Delivers a compass reading to every active heading watcher */
+  emitHeading: (heading: Location.LocationHeadingObject) => Promise<void>;
+};
+
+/**
+ * Creates a location source that replays scripted fixes, delays, permission
+ * outcomes and failures
+ *
+ * @example
+ * ```ts
+ * const source = createFakeLocationSource({
+ *   currentPosition: [{ value: createFix({ latitude: 1, longitude: 2 }), delay: 500 }],
+ * });
+ * const store = new LocationStore({ source, storage: createMemoryStorageAdapter() });
+ * ```
+ */
+export const createFakeLocationSource = (
+  options: FakeLocationSourceOptions = {}
+): FakeLocationSource => {
+  const {
+    promptOutcome = "granted",
+    accuracy = "fine",
+    manual = false,
+  } = options;
+
+  let permission = options.permission ?? "granted";
+  let servicesEnabled = options.servicesEnabled ?? true;
+  let permissionRequests = 0;
+  const watchers = new Set<Location.LocationCallback>();
+  const headingWatchers = new Set<Location.LocationHeadingCallback>();
+
+  const lastKnown = new FakeCallQueue<
+    Location.LocationObject | null,
+    Location.LocationLastKnownOptions | undefined
+  >(options.lastKnown, manual ? null : () => ({ value: null }));
+  const currentPosition = new FakeCallQueue<
+    Location.LocationObject,
+    Location.LocationOptions | undefined
+  >(
+    options.currentPosition,
+    manual ? null : () => ({ error: new Error("No scripted position") })
+  );
+
+  return {
+    name: "fake",
+    lastKnown,
+    currentPosition,
+    get permissionRequests() {
+      return permissionRequests;
+    },
+    get watcherCount() {
+      return watchers.size;
+    },
+    get headingWatcherCount() {
+      return headingWatchers.size;
+    },
+    setPermission: (outcome) => {
+      permission = outcome;
+    },
+    setServicesEnabled: (enabled) => {
+      servicesEnabled = enabled;
+    },
+    emit: async (location) => {
+      watchers.forEach((callback) => callback(location));
+      await flushMicrotasks();
+    },
+    emitHeading: async (heading) => {
+      headingWatchers.forEach((callback) => callback(heading));
+      await flushMicrotasks();
+    },
+    getForegroundPermissionsAsync: async () =>
+      toPermissionResponse(permission, accuracy),
+    requestForegroundPermissionsAsync: async () => {
+      permissionRequests++;
+      if (permission === "undetermined") permission = promptOutcome;
+      return toPermissionResponse(permission, accuracy);
+    },
+    hasServicesEnabledAsync: async () => servicesEnabled,
+    getLastKnownPositionAsync: (lastKnownOptions) =>
+      lastKnown.call(lastKnownOptions),
+    getCurrentPositionAsync: (positionOptions) =>
+      currentPosition.call(positionOptions),
+    watchPositionAsync: async (_watchOptions, callback) => {
+      watchers.add(callback);
+      return {
+        remove: () => {
+          watchers.delete(callback);
+        },
+      };
+    },
+    watchHeadingAsync: async (callback) => {
+      headingWatchers.add(callback);
+      return {
+        remove: () => {
+          headingWatchers.delete(callback);
+        },
+      };
+    },
+  };
+};
+
+/**
+ * Creates a geocoder that replays scripted addresses and failures
+ */
+export const createFakeGeocoder = (
+  options: FakeGeocoderOptions = {}
+): GeocoderProvider & {
+  requests: FakeCallQueue<Location.LocationGeocodedAddress | null, Coordinates>;
+} => {
+  const { name = "fake", manual = false } = options;
+  const requests = new FakeCallQueue<
+    Location.LocationGeocodedAddress | null,
+    Coordinates
+  >(options.responses, manual ? null : () => ({ value: null }));
+
+  return {
+    name,
+    requests,
+    reverseGeocode: (coords) => requests.call(coords),
+  };
+};
+
+/**
+ * Isolated store wired to manual fakes, with helpers for each pipeline stage
+ */
+export type LocationTestHarness = {
+  store: LocationStore;
+  source: FakeLocationSource;
+  geocoder: ReturnType<typeof createFakeGeocoder>;
+  storage: ReturnType<typeof createMemoryStorageAdapter>;
+  /**
+   * Answers the initial race: the last known position (if it was requested), then the new fix
+   * When lastKnown is a fix it wins the race and the new fix is ignored
+   */
+  resolveFix: (
+    fix: Location.LocationObject,
+    lastKnown?: Location.LocationObject | null
+  ) => Promise<void>;
+  /** Answers the next reverse geocoding request */
+  resolveGeocode: (
+    address: Location.LocationGeocodedAddress | null
+  ) => Promise<void>;
+  /** Answers the background refinement request */
+  resolveRefinement: (fix: Location.LocationObject) => Promise<void>;
+};
+
+/**
+ * Creates a store whose fetch → geocode → refine pipeline advances only when
+ * the test answers each stage
+ * Cached addresses skip the geocoder, so only await resolveGeocode for new coordinates
+ *
+ * @example
+ * ```ts
+ * const harness = createLocationTestHarness();
+ * const fetching = harness.store.refresh();
+ * await harness.resolveFix(createFix({ latitude: 1, longitude: 2, accuracy: 80 }));
+ * await fetching;
+ * await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+ * await harness.resolveRefinement(createFix({ latitude: 1.001, longitude: 2, accuracy: 5 }));
+ * await harness.resolveGeocode(createAddress({ city: "Lisbon" }));
+ * expect(harness.store.getSnapshot().coords?.accuracy).toBe(5);
+ * ```
+ */
+export const createLocationTestHarness = (
+  options: FakeLocationSourceOptions = {}
+): LocationTestHarness => {
+  const source = createFakeLocationSource({ manual: true, ...options });
+  const geocoder = createFakeGeocoder({ manual: true });
+  const storage = createMemoryStorageAdapter();
+  const store = new LocationStore({ source, geocoder, storage });
+
+  return {
+    store,
+    source,
+    geocoder,
+    storage,
+    resolveFix: async (fix, lastKnown = null) => {
+      // Last known position is requested right before the new fix, if at all
+      await source.currentPosition.waitForCall();
+      if (source.lastKnown.pendingCount > 0) {
+        await source.lastKnown.resolveNext(lastKnown);
+      }
+      await source.currentPosition.resolveNext(fix);
+    },
+    resolveGeocode: (address) => geocoder.requests.resolveNext(address),
+    resolveRefinement: (fix) => source.currentPosition.resolveNext(fix),
+  };
+};
+
+/**
+ * Restores every module-level default so tests do not leak state
+ * Clears the global store, permission state, geocoder, storage and encryption
+ */
+export const resetLocationModules = (): void => {
+  defaultLocationStore.reset();
+  resetPermissionState();
+  setGeocoderProvider(chainGeocoders(platformGeocoder, offlineGeocoder));
+  setLocationStorage(createAsyncStorageAdapter());
+  setLocationEncryption(null);
+};
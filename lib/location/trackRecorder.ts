@@ -0,0 +1,440 @@
+import * as Location from "expo-location";
+import { openStoredValue, sealStoredValue } from "./encryption";
+import { haversineDistance } from "./geo";
+import {
+  defaultLocationStore,
+  type LocationStore,
+  type LocationWatchOptions,
+} from "./locationStore";
+import type { TrackPoint, TrackSession } from "./tracks";
+
+/**
+ * Configuration constants for track recording
+ */
+const TRACK_INDEX_KEY = "tracks"; // Ids of stored sessions, oldest first (namespaced)
+const TRACK_KEY_PREFIX = "track:"; // Prefix of each stored session (namespaced)
+const MAX_STORED_TRACKS = 50; // Oldest sessions are deleted beyond this
+const TRACK_PERSIST_DELAY = 10 * 1000; // 10 seconds - batches writes while recording
+const MIN_POINT_DISTANCE = 5; // 5 meters - skips jitter while standing still
+const MAX_POINT_ACCURACY = 50; // 50 meters - skips fixes too vague to draw a route
+const STARTING_FIX_MAX_AGE = 15 * 1000; // 15 seconds - current fix used as first point
+const RECORDING_TIME_INTERVAL = 1000; // 1 second between watch updates
+
+/**
+ * Options for a recording session
+ */
+export type TrackStartOptions = {
+  /** Label stored with the session and used in exports */
+  name?: string;
+  /**
+   * Minimum distance in meters from the previous point to record a new one
+   * @default 5
+   */
+  minDistance?: number;
+  /**
+   * Fixes with a worse accuracy radius (meters) are skipped
+   * @default 50
+   */
+  maxAccuracy?: number;
+  /**
+   * Whether to watch the position while recording
+   * Disable when something else (useLocation watch, background tracking) already feeds the store
+   * @default true
+   */
+  watch?: boolean;
+  /**
+   * Overrides for the watch started while recording
+   * @default high accuracy, 1 second interval, minDistance as significant change
+   */
+  watchOptions?: LocationWatchOptions;
+  /**
+   * Maximum number of sessions kept in storage (oldest deleted first)
+   * @default 50
+   */
+  maxStoredSessions?: number;
+};
+
+const createSessionId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isTrackSession = (value: unknown): value is TrackSession => {
+  const session = value as TrackSession | null;
+  return (
+    !!session &&
+    typeof session.id === "string" &&
+    typeof session.startedAt === "number" &&
+    Array.isArray(session.segments)
+  );
+};
+
+/**
+ * Records fixes from a LocationStore into sessions with start/pause/resume/stop
+ * Sessions are kept in the store's storage (encrypted when a cipher is registered)
+ *
+ * @example
+ * ```ts
+ * const recorder = getTrackRecorder();
+ * recorder.start({ name: "Morning run" });
+ * // ...
+ * const session = await recorder.stop();
+ * share(toGpx(session));
+ * ```
+ */
+export class TrackRecorder {
+  /** Store the fixes are read from */
+  readonly store: LocationStore;
+  private session: TrackSession | null = null;
+  private startOptions: TrackStartOptions = {};
+  private listeners = new Set<() => void>();
+  private detachFromStore: (() => void) | null = null;
+  private lastCoords: Location.LocationObjectCoords | null = null;
+  private persistTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  /** Serializes storage writes so the index is never updated concurrently */
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(store: LocationStore = defaultLocationStore) {
+    this.store = store;
+  }
+
+  /**
+   * Registers a listener called after every session change
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Returns the current (or last stopped) session, same reference until it changes
+   */
+  getSnapshot = (): TrackSession | null => this.session;
+
+  /**
+   * Starts a new session and begins recording
+   * @throws Error if a session is already recording or paused
+   */
+  start(options: TrackStartOptions = {}): TrackSession {
+    if (this.session && this.session.status !== "stopped") {
+      throw new Error(
+        "A track session is already active. Stop it before starting another."
+      );
+    }
+
+    const now = Date.now();
+    this.startOptions = options;
+    this.setSession({
+      id: createSessionId(),
+      name: options.name ?? null,
+      status: "recording",
+      startedAt: now,
+      endedAt: null,
+      segments: [[]],
+      distance: 0,
+      duration: 0,
+      activeSince: now,
+    });
+    this.attach();
+    this.schedulePersist(0);
+    return this.session as TrackSession;
+  }
+
+  /**
+   * Stops recording without ending the session; resume starts a new segment
+   */
+  pause(): void {
+    const session = this.session;
+    if (session?.status !== "recording") return;
+
+    this.detach();
+    this.setSession({
+      ...session,
+      status: "paused",
+      duration: session.duration + this.activeDuration(session),
+      activeSince: null,
+    });
+    this.schedulePersist(0);
+  }
+
+  /**
+   * Continues a paused session in a new segment
+   */
+  resume(): void {
+    const session = this.session;
+    if (session?.status !== "paused") return;
+
+    this.setSession({
+      ...session,
+      status: "recording",
+      segments: [...session.segments, []],
+      activeSince: Date.now(),
+    });
+    this.attach();
+    this.schedulePersist(0);
+  }
+
+  /**
+   * Ends the session and waits until it is stored
+   * @returns The stopped session, or null if none was active
+   */
+  async stop(): Promise<TrackSession | null> {
+    const session = this.session;
+    if (!session || session.status === "stopped") return null;
+
+    this.detach();
+    const stopped: TrackSession = {
+      ...session,
+      status: "stopped",
+      endedAt: Date.now(),
+      segments: session.segments.filter((segment) => segment.length > 0),
+      duration: session.duration + this.activeDuration(session),
+      activeSince: null,
+    };
+    this.setSession(stopped);
+
+    if (this.persistTimeoutId) {
+      clearTimeout(this.persistTimeoutId);
+      this.persistTimeoutId = null;
+    }
+    await this.persist(stopped);
+    return stopped;
+  }
+
+  /**
+   * Loads every stored session, newest first
+   */
+  async listSessions(): Promise<TrackSession[]> {
+    const ids = await this.readIndex();
+    const sessions = await Promise.all(ids.map((id) => this.loadSession(id)));
+    return sessions
+      .filter((session): session is TrackSession => session !== null)
+      .reverse();
+  }
+
+  /**
+   * Loads a stored session by id
+   * @returns The session, or null if missing, corrupted or not decryptable
+   */
+  async loadSession(id: string): Promise<TrackSession | null> {
+    const { adapter, namespacedKey } = this.store.storage;
+    try {
+      const stored = await adapter.getItem(
+        namespacedKey(`${TRACK_KEY_PREFIX}${id}`)
+      );
+      if (!stored) return null;
+
+      const plaintext = await openStoredValue(stored);
+      if (!plaintext) return null;
+
+      const parsed: unknown = JSON.parse(plaintext);
+      return isTrackSession(parsed) ? parsed : null;
+    } catch {
+      // Ignore errors - corrupted or invalid data
+      return null;
+    }
+  }
+
+  /**
+   * Deletes a stored session (the active session cannot be deleted)
+   */
+  async deleteSession(id: string): Promise<void> {
+    if (this.session?.id === id && this.session.status !== "stopped") return;
+
+    await this.enqueueWrite(async () => {
+      const { adapter, namespacedKey } = this.store.storage;
+      const ids = await this.readIndex();
+      await adapter.removeItem(namespacedKey(`${TRACK_KEY_PREFIX}${id}`));
+      await adapter.setItem(
+        namespacedKey(TRACK_INDEX_KEY),
+        JSON.stringify(ids.filter((storedId) => storedId !== id))
+      );
+    });
+  }
+
+  private activeDuration(session: TrackSession): number {
+    return session.activeSince !== null
+      ? Math.max(0, Date.now() - session.activeSince)
+      : 0;
+  }
+
+  private setSession(session: TrackSession | null): void {
+    this.session = session;
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Starts reading fixes from the store (and watching, unless disabled)
+   */
+  private attach(): void {
+    this.detach();
+    const {
+      minDistance = MIN_POINT_DISTANCE,
+      watch = true,
+      watchOptions,
+    } = this.startOptions;
+
+    // Use the current fix as the first point only if it is recent
+    const { coords, stale, timestamp } = this.store.getSnapshot();
+    this.lastCoords = null;
+    if (
+      coords &&
+      !stale &&
+      timestamp !== null &&
+      Date.now() - timestamp <= STARTING_FIX_MAX_AGE
+    ) {
+      this.handleSnapshot();
+    } else {
+      this.lastCoords = coords;
+    }
+
+    const unsubscribe = this.store.subscribe(this.handleSnapshot);
+    const stopWatching = watch
+      ? this.store.watch({
+          watchAccuracy: Location.LocationAccuracy.High,
+          watchTimeInterval: RECORDING_TIME_INTERVAL,
+          significantChangeMeters: minDistance,
+          accuracyAwareChange: false,
+          ...watchOptions,
+        })
+      : null;
+
+    this.detachFromStore = () => {
+      stopWatching?.();
+      unsubscribe();
+    };
+  }
+
+  private detach(): void {
+    this.detachFromStore?.();
+    this.detachFromStore = null;
+  }
+
+  private handleSnapshot = (): void => {
+    const { coords, stale, timestamp } = this.store.getSnapshot();
+    // Skip stale cache entries and snapshots without a new fix
+    if (!coords || stale || coords === this.lastCoords) return;
+    this.lastCoords = coords;
+    this.addPoint(coords, timestamp ?? Date.now());
+  };
+
+  private addPoint(
+    coords: Location.LocationObjectCoords,
+    timestamp: number
+  ): void {
+    const session = this.session;
+    if (session?.status !== "recording") return;
+
+    const {
+      minDistance = MIN_POINT_DISTANCE,
+      maxAccuracy = MAX_POINT_ACCURACY,
+    } = this.startOptions;
+    if (coords.accuracy !== null && coords.accuracy > maxAccuracy) return;
+
+    const segment = session.segments[session.segments.length - 1] ?? [];
+    const previous = segment[segment.length - 1];
+    const step = previous ? haversineDistance(previous, coords) : 0;
+    if (previous && step < minDistance) return;
+
+    const point: TrackPoint = {
+      latitude: coords.latitude,
+      longitude: coords.longitude,
+      altitude: coords.altitude,
+      accuracy: coords.accuracy,
+      speed: coords.speed,
+      heading: coords.heading,
+      timestamp,
+    };
+
+    this.setSession({
+      ...session,
+      segments: [...session.segments.slice(0, -1), [...segment, point]],
+      distance: session.distance + step,
+    });
+    this.schedulePersist(TRACK_PERSIST_DELAY);
+  }
+
+  /**
+   * Writes the current session after a delay, batching points recorded meanwhile
+   */
+  private schedulePersist(delay: number): void {
+    if (this.persistTimeoutId) {
+      if (delay > 0) return;
+      clearTimeout(this.persistTimeoutId);
+    }
+
+    this.persistTimeoutId = setTimeout(() => {
+      this.persistTimeoutId = null;
+      if (this.session) void this.persist(this.session);
+    }, delay);
+  }
+
+  private async persist(session: TrackSession): Promise<void> {
+    const { maxStoredSessions = MAX_STORED_TRACKS } = this.startOptions;
+
+    await this.enqueueWrite(async () => {
+      const { adapter, namespacedKey } = this.store.storage;
+      await adapter.setItem(
+        namespacedKey(`${TRACK_KEY_PREFIX}${session.id}`),
+        await sealStoredValue(JSON.stringify(session))
+      );
+
+      const ids = (await this.readIndex()).filter((id) => id !== session.id);
+      ids.push(session.id);
+      const removed = ids.splice(
+        0,
+        Math.max(0, ids.length - maxStoredSessions)
+      );
+      await Promise.all(
+        removed.map((id) =>
+          adapter.removeItem(namespacedKey(`${TRACK_KEY_PREFIX}${id}`))
+        )
+      );
+      await adapter.setItem(
+        namespacedKey(TRACK_INDEX_KEY),
+        JSON.stringify(ids)
+      );
+    });
+  }
+
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    this.writeQueue = this.writeQueue.then(write).catch(() => {
+      // Ignore errors - persistence is optional
+    });
+    return this.writeQueue;
+  }
+
+  private async readIndex(): Promise<string[]> {
+    const { adapter, namespacedKey } = this.store.storage;
+    try {
+      const stored = await adapter.getItem(namespacedKey(TRACK_INDEX_KEY));
+      const parsed: unknown = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed)
+        ? parsed.filter((id): id is string => typeof id === "string")
+        : [];
+    } catch {
+      // Ignore errors - corrupted index
+      return [];
+    }
+  }
+}
+
+/**
+ * One recorder per store, so a session survives the screen that started it
+ */
+const recorders = new WeakMap<LocationStore, TrackRecorder>();
+
+/**
+ * Returns the recorder bound to a store, creating it on first use
+ */
+export const getTrackRecorder = (
+  store: LocationStore = defaultLocationStore
+): TrackRecorder => {
+  let recorder = recorders.get(store);
+  if (!recorder) {
+    recorder = new TrackRecorder(store);
+    recorders.set(store, recorder);
+  }
+  return recorder;
+};
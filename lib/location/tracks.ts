@@ -0,0 +1,306 @@
+/**
+ * Single recorded fix
+ */
+export type TrackPoint = {
+  latitude: number;
+  longitude: number;
+  /** Meters above the WGS84 ellipsoid */
+  altitude: number | null;
+  /** Radius of uncertainty in meters */
+  accuracy: number | null;
+  /** Meters per second */
+  speed: number | null;
+  /** Degrees clockwise from true north */
+  heading: number | null;
+  /** Milliseconds since epoch */
+  timestamp: number;
+};
+
+export type TrackSessionStatus = "recording" | "paused" | "stopped";
+
+/**
+ * Recorded route with its running totals
+ * Each pause ends a segment, so the gap is not counted as distance
+ */
+export type TrackSession = {
+  id: string;
+  name: string | null;
+  status: TrackSessionStatus;
+  startedAt: number;
+  /** When the session was stopped, null while active */
+  endedAt: number | null;
+  /** Points grouped by the stretches recorded between pauses */
+  segments: TrackPoint[][];
+  /** Distance in meters, excluding pauses */
+  distance: number;
+  /** Recorded time in milliseconds up to the last pause (see getTrackDuration for a live value) */
+  duration: number;
+  /** Start of the current recording stretch, null while paused or stopped */
+  activeSince: number | null;
+};
+
+const GPX_CREATOR = "expo-location-hook";
+
+/**
+ * Recorded time in milliseconds, including the running stretch
+ */
+export const getTrackDuration = (
+  session: TrackSession,
+  now = Date.now()
+): number =>
+  session.duration +
+  (session.activeSince !== null ? Math.max(0, now - session.activeSince) : 0);
+
+/**
+ * Average speed in meters per second over the recorded time (0 before any time passed)
+ */
+export const getTrackAverageSpeed = (
+  session: TrackSession,
+  now = Date.now()
+): number => {
+  const seconds = getTrackDuration(session, now) / 1000;
+  return seconds > 0 ? session.distance / seconds : 0;
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const toIsoTime = (timestamp: number): string =>
+  new Date(timestamp).toISOString();
+
+/**
+ * Serializes a session as a GPX 1.1 document with one track segment per recorded stretch
+ */
+export const toGpx = (session: TrackSession): string => {
+  const name = session.name ? `<name>${escapeXml(session.name)}</name>` : "";
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${GPX_CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <metadata>${name}<time>${toIsoTime(session.startedAt)}</time></metadata>`,
+    `  <trk>${name}`,
+  ];
+
+  for (const segment of session.segments) {
+    if (segment.length === 0) continue;
+    lines.push("    <trkseg>");
+    for (const point of segment) {
+      const elevation =
+        point.altitude !== null ? `<ele>${point.altitude}</ele>` : "";
+      lines.push(
+        `      <trkpt lat="${point.latitude}" lon="${point.longitude}">${elevation}<time>${toIsoTime(point.timestamp)}</time></trkpt>`
+      );
+    }
+    lines.push("    </trkseg>");
+  }
+
+  lines.push("  </trk>", "</gpx>", "");
+  return lines.join("\n");
+};
+
+/**
+ * GeoJSON Feature with a LineString geometry
+ */
+export type TrackGeoJson = {
+  type: "Feature";
+  geometry: {
+    type: "LineString";
+    /** [longitude, latitude] or [longitude, latitude, altitude] */
+    coordinates: number[][];
+  };
+  properties: {
+    id: string;
+    name: string | null;
+    startedAt: string;
+    endedAt: string | null;
+    /** Meters */
+    distance: number;
+    /** Milliseconds */
+    duration: number;
+    /** Meters per second */
+    averageSpeed: number;
+    /** ISO time of each coordinate, as read by common GeoJSON track tools */
+    coordTimes: string[];
+  };
+};
+
+/**
+ * Serializes a session as a GeoJSON LineString Feature
+ * Segments are joined into one line; totals in properties still exclude pauses
+ */
+export const toGeoJson = (
+  session: TrackSession,
+  now = Date.now()
+): TrackGeoJson => {
+  const points = session.segments.flat();
+
+  return {
+    type: "Feature",
+    geometry: {
+      type: "LineString",
+      coordinates: points.map((point) =>
+        point.altitude !== null
+          ? [point.longitude, point.latitude, point.altitude]
+          : [point.longitude, point.latitude]
+      ),
+    },
+    properties: {
+      id: session.id,
+      name: session.name,
+      startedAt: toIsoTime(session.startedAt),
+      endedAt: session.endedAt !== null ? toIsoTime(session.endedAt) : null,
+      distance: session.distance,
+      duration: getTrackDuration(session, now),
+      averageSpeed: getTrackAverageSpeed(session, now),
+      coordTimes: points.map((point) => toIsoTime(point.timestamp)),
+    },
+  };
+};
+
+/**
+ * Point read from an imported track; fields missing from the file are null
+ */
+export type TrackInputPoint = {
+  latitude: number;
+  longitude: number;
+  altitude?: number | null;
+  accuracy?: number | null;
+  speed?: number | null;
+  heading?: number | null;
+  /** Milliseconds since epoch, null if the file has no times */
+  timestamp?: number | null;
+};
+
+const GPX_POINT_PATTERN = /<(trkpt|rtept)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+
+const readXmlAttribute = (attributes: string, name: string): string | null =>
+  attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`))?.[1] ??
+  null;
+
+/** Reads a child element, with or without a namespace prefix (e.g. gpxtpx:speed) */
+const readXmlChild = (body: string, name: string): string | null =>
+  body.match(
+    new RegExp(`<(?:\\w+:)?${name}>\\s*([^<]*?)\\s*</(?:\\w+:)?${name}>`)
+  )?.[1] ?? null;
+
+const toNumberOrNull = (value: string | null | undefined): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toTimestampOrNull = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Reads the track and route points of a GPX document, in file order
+ * Speed and course are read from GPX 1.0 elements or extensions when present
+ */
+export const parseGpx = (xml: string): TrackInputPoint[] => {
+  const points: TrackInputPoint[] = [];
+
+  for (const match of xml.matchAll(GPX_POINT_PATTERN)) {
+    const [, , attributes, body = ""] = match;
+    const latitude = toNumberOrNull(readXmlAttribute(attributes, "lat"));
+    const longitude = toNumberOrNull(readXmlAttribute(attributes, "lon"));
+    if (latitude === null || longitude === null) continue;
+
+    points.push({
+      latitude,
+      longitude,
+      altitude: toNumberOrNull(readXmlChild(body, "ele")),
+      speed: toNumberOrNull(readXmlChild(body, "speed")),
+      heading: toNumberOrNull(
+        readXmlChild(body, "course") ?? readXmlChild(body, "heading")
+      ),
+      timestamp: toTimestampOrNull(readXmlChild(body, "time")),
+    });
+  }
+
+  return points;
+};
+
+type GeoJsonObject = {
+  type?: string;
+  features?: GeoJsonObject[];
+  geometry?: GeoJsonObject | null;
+  coordinates?: unknown;
+  properties?: { coordTimes?: unknown } | null;
+};
+
+const toInputPoints = (
+  coordinates: unknown,
+  times: unknown
+): TrackInputPoint[] => {
+  if (!Array.isArray(coordinates)) return [];
+  const timeList = Array.isArray(times) ? times : [];
+
+  return coordinates.flatMap((position: unknown, index) => {
+    if (!Array.isArray(position)) return [];
+    const [longitude, latitude, altitude] = position;
+    if (typeof latitude !== "number" || typeof longitude !== "number") {
+      return [];
+    }
+    return [
+      {
+        latitude,
+        longitude,
+        altitude: typeof altitude === "number" ? altitude : null,
+        timestamp: toTimestampOrNull(timeList[index]),
+      },
+    ];
+  });
+};
+
+/**
+ * Reads the points of GeoJSON LineString / MultiLineString geometries, in order
+ * Accepts a geometry, Feature or FeatureCollection (as an object or JSON text)
+ * Times are read from the `coordTimes` property when present
+ */
+export const parseGeoJson = (input: string | object): TrackInputPoint[] => {
+  const root = (
+    typeof input === "string" ? JSON.parse(input) : input
+  ) as GeoJsonObject;
+
+  const visit = (node: GeoJsonObject, times: unknown): TrackInputPoint[] => {
+    switch (node.type) {
+      case "FeatureCollection":
+        return (node.features ?? []).flatMap((feature) =>
+          visit(feature, undefined)
+        );
+      case "Feature":
+        return node.geometry
+          ? visit(node.geometry, node.properties?.coordTimes)
+          : [];
+      case "LineString":
+        return toInputPoints(node.coordinates, times);
+      case "MultiLineString":
+        return Array.isArray(node.coordinates)
+          ? node.coordinates.flatMap((line: unknown, index) =>
+              toInputPoints(
+                line,
+                Array.isArray(times) ? times[index] : undefined
+              )
+            )
+          : [];
+      default:
+        return [];
+    }
+  };
+
+  return visit(root, undefined);
+};
+
+/**
+ * Parses GPX or GeoJSON text, detected from the first character
+ */
+export const parseTrack = (text: string): TrackInputPoint[] =>
+  text.trimStart().startsWith("<") ? parseGpx(text) : parseGeoJson(text);